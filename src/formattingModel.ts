@@ -0,0 +1,919 @@
+import powerbi from "powerbi-visuals-api";
+import PrimitiveValue = powerbi.PrimitiveValue;
+import ISelectionId = powerbi.visuals.ISelectionId;
+import DataView = powerbi.DataView;
+import VisualEnumerationInstanceKinds = powerbi.VisualEnumerationInstanceKinds;
+import { VisualSettings } from "./settings";
+import { dataViewWildcard } from "powerbi-visuals-utils-dataviewutils";
+import { formattingSettings, FormattingSettingsService } from "powerbi-visuals-utils-formattingmodel";
+interface barChartDataPoint {
+    value: PrimitiveValue;
+    numberFormat: string;
+    formattedValue: string;
+    originalFormattedValue: string;
+    isPillar: number;
+    category: string;
+    color: string;
+    customBarColor: string;
+    customFontColor: string;
+    customLabelPositioning: string;
+    selectionId: ISelectionId;
+    childrenCount: number;
+    displayName: string;
+    invertSentiment: boolean;
+    startEndType: string;
+    barType: string;
+    isOther: boolean;
+}
+
+class formattingCard extends formattingSettings.CompositeCard {
+    public groups: formattingSettings.Group[];
+
+    constructor(name: string, displayName: string, groups: formattingSettings.Group[], topLevelSlice?: formattingSettings.SimpleSlice) {
+        super();
+        this.name = name;
+        this.displayName = displayName;
+        this.groups = groups;
+        this.topLevelSlice = topLevelSlice;
+        // a card without any visible slice is not shown in the format pane
+        this.visible = (topLevelSlice && topLevelSlice.visible !== false) ||
+            groups.some(group => group.visible !== false && (group.topLevelSlice || group.slices.some(slice => slice.visible !== false)));
+    }
+}
+
+export interface IFormattingModel {
+    getFormattingModel(): powerbi.visuals.FormattingModel;
+}
+export function createformattingModel(
+    visualType: String,
+    barChartData: barChartDataPoint[],
+    visualSettings: VisualSettings,
+    defaultXAxisGridlineStrokeWidth: PrimitiveValue,
+    defaultYAxisGridlineStrokeWidth: PrimitiveValue,
+    dataView: DataView
+): IFormattingModel {
+    return new formattingModel(
+        visualType,
+        barChartData,
+        visualSettings,
+        defaultXAxisGridlineStrokeWidth,
+        defaultYAxisGridlineStrokeWidth,
+        dataView);
+}
+class formattingModel implements IFormattingModel {
+    private visualType: String;
+    private barChartData: barChartDataPoint[];
+    private visualSettings: VisualSettings;
+    private defaultXAxisGridlineStrokeWidth: PrimitiveValue;
+    private defaultYAxisGridlineStrokeWidth: PrimitiveValue;
+    private dataView: DataView;
+    private formattingSettingsService: FormattingSettingsService;
+
+    constructor(visualType: String, barchartData: barChartDataPoint[], visualSettings: VisualSettings, defaultXAxisGridlineStrokeWidth: PrimitiveValue, defaultYAxisGridlineStrokeWidth: PrimitiveValue, dataView: DataView) {
+        this.visualType = visualType;
+        this.barChartData = barchartData;
+        this.visualSettings = visualSettings;
+        this.defaultXAxisGridlineStrokeWidth = defaultXAxisGridlineStrokeWidth;
+        this.defaultYAxisGridlineStrokeWidth = defaultYAxisGridlineStrokeWidth;
+        this.dataView = dataView;
+        this.formattingSettingsService = new FormattingSettingsService();
+    }
+    public getFormattingModel(): powerbi.visuals.FormattingModel {
+        var model: formattingSettings.Model = {
+            cards: [
+                this.cardChartOrientation(),
+                this.cardDefinePillars(),
+                this.cardLegend(),
+                this.cardSentimentColor(),
+                this.cardXaxis(),
+                this.cardYaxis(),
+                this.cardSecondaryAxis(),
+                this.cardTargetMarkers(),
+                this.cardLabelFormatting(),
+                this.cardMargin()
+            ]
+        };
+        return this.formattingSettingsService.buildFormattingModel(model);
+    }
+    private isStaticVisual(): boolean {
+        return this.visualType == "static" || this.visualType == "staticCategory";
+    }
+    private showSubtotals(): boolean {
+        if (this.visualType == "static") {
+            return this.barChartData.some(dataPoint => dataPoint.barType == "Subtotal");
+        }
+        return this.visualType == "drillableCategory" && this.visualSettings.definePillars.subtotalPillars;
+    }
+    private numberRange(min: number, max: number): powerbi.visuals.NumUpDownFormat {
+        return {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: min },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: max }
+        };
+    }
+    private color(color: string): powerbi.ThemeColorData {
+        return { value: color };
+    }
+    private hasEndValue(): boolean {
+        return this.visualType != "drillable" && this.dataView.matrix.valueSources.some(x => x.roles["endValue"]);
+    }
+    // bars that can be formatted one by one, the "Other" step is formatted through its own property
+    // and the bars of the start and end value roles through the general settings
+    private dataPointSlices(createSlice: (dataPoint: barChartDataPoint) => formattingSettings.SimpleSlice, createOtherSlice?: (dataPoint: barChartDataPoint) => formattingSettings.SimpleSlice): formattingSettings.SimpleSlice[] {
+        var slices: formattingSettings.SimpleSlice[] = [];
+        var hasOtherSlice = false;
+        for (var index = 0; index < this.barChartData.length; index++) {
+            if (this.barChartData[index].startEndType) {
+                continue;
+            }
+            if (!this.barChartData[index].isOther) {
+                slices.push(createSlice(this.barChartData[index]));
+            } else if (createOtherSlice && !hasOtherSlice) {
+                // all "Other" bars, and the expanded steps of "Other", share one property
+                slices.push(createOtherSlice(this.barChartData[index]));
+                hasOtherSlice = true;
+            }
+        }
+        return slices;
+    }
+    private cardChartOrientation(): formattingCard {
+        var chartOrientation = this.visualSettings.chartOrientation;
+        var showLimitBreakdown = this.visualType == "staticCategory" || this.visualType == "drillableCategory" || this.visualType == "drillable";
+        // with several measures the steps of a hierarchy are not limited, as every measure repeats all of its levels
+        var disableLimitBreakdown = this.visualType == "drillable" && this.dataView.matrix.rows.levels.length > 1;
+
+        var layoutGroup = new formattingSettings.Group({
+            name: "chartLayout",
+            displayName: "Layout",
+            slices: [
+                new formattingSettings.AutoDropdown({
+                    name: "orientation",
+                    displayName: "Chart Orientation",
+                    value: chartOrientation.orientation
+                }),
+                new formattingSettings.ToggleSwitch({
+                    name: "useSentimentFeatures",
+                    displayName: "Format using Sentiments",
+                    description: "Use sentiments to define bar colors, label font colors and label positioning",
+                    value: chartOrientation.useSentimentFeatures,
+                    visible: this.isStaticVisual()
+                })
+            ]
+        });
+        var sortingGroup = new formattingSettings.Group({
+            name: "chartSorting",
+            displayName: "Sorting",
+            slices: [
+                new formattingSettings.AutoDropdown({
+                    name: "sortData",
+                    displayName: "Sort Data",
+                    description: "Sort the steps between two pillars, by the Sort by measure when one is added. A sort picked in the visual's Sort by menu takes precedence",
+                    value: chartOrientation.sortData.toString()
+                })
+            ]
+        });
+        var stepsGroup = new formattingSettings.Group({
+            name: "chartSteps",
+            displayName: "Steps",
+            visible: showLimitBreakdown,
+            disabled: disableLimitBreakdown,
+            disabledReason: disableLimitBreakdown ? "Steps can only be limited with one measure, or with one row level when there are several measures" : undefined,
+            slices: [
+                new formattingSettings.ToggleSwitch({
+                    name: "limitBreakdown",
+                    displayName: "Limit Steps",
+                    value: chartOrientation.limitBreakdown
+                }),
+                new formattingSettings.NumUpDown({
+                    name: "maxBreakdown",
+                    displayName: "Max Steps",
+                    description: "Set the limit for number of steps",
+                    value: chartOrientation.maxBreakdown,
+                    options: this.numberRange(1, 100),
+                    visible: chartOrientation.limitBreakdown
+                }),
+                new formattingSettings.AutoDropdown({
+                    name: "limitBreakdownRule",
+                    displayName: "Rank Steps By",
+                    description: "With top positive and negative the max steps applies to each sign",
+                    value: chartOrientation.limitBreakdownRule,
+                    visible: chartOrientation.limitBreakdown
+                }),
+                new formattingSettings.TextInput({
+                    name: "otherLabel",
+                    displayName: "Other Label",
+                    placeholder: "Other",
+                    value: chartOrientation.otherLabel,
+                    visible: chartOrientation.limitBreakdown
+                }),
+                new formattingSettings.ToggleSwitch({
+                    name: "expandOther",
+                    displayName: "Expand Other",
+                    value: chartOrientation.expandOther,
+                    visible: chartOrientation.limitBreakdown
+                })
+            ]
+        });
+        return new formattingCard("chartOrientation", "Chart Options", [layoutGroup, sortingGroup, stepsGroup]);
+    }
+    private cardDefinePillars(): formattingCard {
+        var slices: formattingSettings.SimpleSlice[] = [];
+        var pillarSlice = (dataPoint: barChartDataPoint) => new formattingSettings.ToggleSwitch({
+            name: "pillars",
+            displayName: dataPoint.category,
+            value: dataPoint.isPillar ? true : false,
+            selector: dataPoint.selectionId.getSelector()
+        });
+        var totalPillarSlice = () => new formattingSettings.ToggleSwitch({
+            name: "Totalpillar",
+            displayName: "Show Cumulative Total",
+            value: this.visualSettings.definePillars.Totalpillar
+        });
+
+        if (this.visualType == "static") {
+            slices = this.dataPointSlices(dataPoint => new formattingSettings.AutoDropdown({
+                name: "barType",
+                displayName: dataPoint.displayName,
+                value: dataPoint.barType,
+                selector: dataPoint.selectionId.getSelector()
+            }));
+        }
+        if (this.visualType == "staticCategory") {
+            var hasPillar: boolean = false;
+            for (var index = 0; index < this.barChartData.length; index++) {
+                // if the last pillar is the only pillar than treat it as no pillar
+                if (this.barChartData[index].isPillar && !this.barChartData[index].startEndType && index != this.barChartData.length && !this.visualSettings.definePillars.Totalpillar) {
+                    hasPillar = true;
+                }
+            }
+            if (!this.visualSettings.definePillars.Totalpillar) {
+                slices = this.dataPointSlices(pillarSlice);
+            }
+            if (!hasPillar && !this.hasEndValue()) {
+                slices.push(totalPillarSlice());
+            }
+        }
+        if (this.visualType == "drillableCategory") {
+            if (!this.hasEndValue()) {
+                slices.push(totalPillarSlice());
+            }
+            slices.push(new formattingSettings.ToggleSwitch({
+                name: "subtotalPillars",
+                displayName: "Show Subtotals",
+                value: this.visualSettings.definePillars.subtotalPillars
+            }));
+        }
+        if (this.hasEndValue()) {
+            slices.push(new formattingSettings.TextInput({
+                name: "unexplainedText",
+                displayName: "Unexplained label",
+                value: this.visualSettings.definePillars.unexplainedText,
+                placeholder: "Unexplained"
+            }));
+        }
+        return new formattingCard("definePillars", "Define Pillars", [
+            new formattingSettings.Group({
+                name: "pillars",
+                displayName: "Pillars",
+                slices: slices
+            })
+        ]);
+    }
+    private cardLegend(): formattingCard {
+        var legend = this.visualSettings.Legend;
+        // the legend describes the sentiment colours, so it is not available when the bars are coloured one by one
+        var showLegend = !this.isStaticVisual() || this.visualSettings.chartOrientation.useSentimentFeatures;
+        var optionsGroup = new formattingSettings.Group({
+            name: "legendOptions",
+            displayName: "Options",
+            visible: showLegend,
+            slices: [
+                new formattingSettings.AutoDropdown({ name: "position", displayName: "Position", value: legend.position }),
+                new formattingSettings.ToggleSwitch({ name: "showPillars", displayName: "Show each pillar", value: legend.showPillars })
+            ]
+        });
+        var titleGroup = new formattingSettings.Group({
+            name: "legendTitle",
+            displayName: "Title",
+            visible: showLegend,
+            topLevelSlice: new formattingSettings.ToggleSwitch({ name: "showTitle", displayName: "Title", value: legend.showTitle }),
+            slices: [
+                new formattingSettings.TextInput({
+                    name: "titleText",
+                    displayName: "Title Text",
+                    placeholder: "Legend",
+                    value: legend.titleText,
+                    visible: legend.showTitle
+                })
+            ]
+        });
+        var textGroup = new formattingSettings.Group({
+            name: "legend",
+            displayName: "Text",
+            visible: showLegend,
+            slices: [
+                new formattingSettings.TextInput({
+                    name: "textFavourable",
+                    displayName: "Sentiment - Favourable",
+                    placeholder: "Favourable",
+                    value: legend.textFavourable
+                }),
+                new formattingSettings.TextInput({
+                    name: "textAdverse",
+                    displayName: "Sentiment - Adverse",
+                    placeholder: "Adverse",
+                    value: legend.textAdverse
+                }),
+                new formattingSettings.TextInput({
+                    name: "textNeutral",
+                    displayName: "Sentiment - Neutral",
+                    placeholder: "Neutral",
+                    value: legend.textNeutral,
+                    visible: this.visualSettings.sentimentColor.neutralBand
+                }),
+                new formattingSettings.TextInput({
+                    name: "textTotal",
+                    displayName: "Total",
+                    placeholder: "Total",
+                    value: legend.textTotal,
+                    visible: !legend.showPillars
+                }),
+                new formattingSettings.TextInput({
+                    name: "textSubtotal",
+                    displayName: "Subtotal",
+                    placeholder: "Subtotal",
+                    value: legend.textSubtotal,
+                    visible: !legend.showPillars && this.showSubtotals()
+                }),
+                new formattingSettings.FontControl({
+                    name: "font",
+                    displayName: "Font",
+                    fontFamily: new formattingSettings.FontPicker({ name: "fontFamily", value: legend.fontFamily }),
+                    fontSize: new formattingSettings.NumUpDown({ name: "fontSize", value: legend.fontSize })
+                }),
+                new formattingSettings.ColorPicker({
+                    name: "fontColor",
+                    displayName: "Font Color",
+                    value: this.color(legend.fontColor)
+                })
+            ]
+        });
+        return new formattingCard("Legend", "Legend", [optionsGroup, titleGroup, textGroup], new formattingSettings.ToggleSwitch({
+            name: "show",
+            displayName: "Legend Show / Hide",
+            value: legend.show,
+            visible: showLegend
+        }));
+    }
+    private sentimentColorSlices(): formattingSettings.SimpleSlice[] {
+        var sentimentColor = this.visualSettings.sentimentColor;
+        return [
+            new formattingSettings.ColorPicker({ name: "sentimentColorTotal", displayName: "Total", value: this.color(sentimentColor.sentimentColorTotal) }),
+            new formattingSettings.ColorPicker({ name: "sentimentColorFavourable", displayName: "Favourable", value: this.color(sentimentColor.sentimentColorFavourable) }),
+            new formattingSettings.ColorPicker({ name: "sentimentColorAdverse", displayName: "Adverse", value: this.color(sentimentColor.sentimentColorAdverse) }),
+            new formattingSettings.ColorPicker({ name: "sentimentColorOther", displayName: "Other", value: this.color(sentimentColor.sentimentColorOther) })
+        ];
+    }
+    private cardSentimentColor(): formattingCard {
+        var sentimentColor = this.visualSettings.sentimentColor;
+        var slices: formattingSettings.SimpleSlice[];
+        if (this.isStaticVisual() && !this.visualSettings.chartOrientation.useSentimentFeatures) {
+            slices = this.dataPointSlices(
+                dataPoint => new formattingSettings.ColorPicker({
+                    name: "fill",
+                    displayName: dataPoint.category,
+                    value: this.color(dataPoint.customBarColor),
+                    //More help on conditional formatting
+                    //https://docs.microsoft.com/en-us/power-bi/developer/visuals/conditional-format
+                    selector: dataViewWildcard.createDataViewWildcardSelector(dataViewWildcard.DataViewWildcardMatchingOption.InstancesAndTotals),
+                    altConstantSelector: dataPoint.selectionId.getSelector(),
+                    instanceKind: VisualEnumerationInstanceKinds.ConstantOrRule
+                }),
+                dataPoint => new formattingSettings.ColorPicker({
+                    name: "sentimentColorOther",
+                    displayName: this.visualSettings.chartOrientation.otherLabel,
+                    value: this.color(this.visualSettings.sentimentColor.sentimentColorOther)
+                }));
+        } else {
+            slices = this.sentimentColorSlices();
+            if (this.showSubtotals()) {
+                slices.push(new formattingSettings.ColorPicker({ name: "sentimentColorSubtotal", displayName: "Subtotal", value: this.color(sentimentColor.sentimentColorSubtotal) }));
+            }
+            slices.push(this.conditionalColorSlice("fill", "Conditional formatting", sentimentColor.sentimentColorFavourable));
+        }
+        return new formattingCard("sentimentColor", "Bar Color", [
+            new formattingSettings.Group({
+                name: "colors",
+                displayName: "Colors",
+                slices: slices
+            }),
+            new formattingSettings.Group({
+                name: "neutralBand",
+                displayName: "Neutral Band",
+                visible: !this.isStaticVisual() || this.visualSettings.chartOrientation.useSentimentFeatures,
+                topLevelSlice: new formattingSettings.ToggleSwitch({ name: "neutralBand", displayName: "Neutral Band", value: sentimentColor.neutralBand }),
+                slices: [
+                    new formattingSettings.AutoDropdown({ name: "neutralBandType", displayName: "Band Type", value: sentimentColor.neutralBandType, visible: sentimentColor.neutralBand }),
+                    new formattingSettings.NumUpDown({
+                        name: "neutralBandValue",
+                        displayName: sentimentColor.neutralBandType == "Relative" ? "Band Value (%)" : "Band Value",
+                        value: sentimentColor.neutralBandValue,
+                        options: { minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 } },
+                        visible: sentimentColor.neutralBand
+                    }),
+                    new formattingSettings.ColorPicker({ name: "sentimentColorNeutral", displayName: "Neutral", value: this.color(sentimentColor.sentimentColorNeutral), visible: sentimentColor.neutralBand })
+                ]
+            }),
+            new formattingSettings.Group({
+                name: "invertSentiment",
+                displayName: "Invert Sentiment",
+                visible: !this.isStaticVisual() || this.visualSettings.chartOrientation.useSentimentFeatures,
+                slices: this.invertSentimentSlices()
+            })
+        ]);
+    }
+    // the static modes are inverted per bar, the drillable modes per measure as their bars are not listed one by one,
+    // except for the leaves of a drillable category, which can also be inverted one by one
+    private invertSentimentSlices(): formattingSettings.SimpleSlice[] {
+        var slices: formattingSettings.SimpleSlice[] = [];
+        if (this.isStaticVisual()) {
+            // pillars have no sentiment
+            this.barChartData.forEach(dataPoint => {
+                if (!dataPoint.isPillar && !dataPoint.isOther) {
+                    slices.push(new formattingSettings.ToggleSwitch({
+                        name: "invertSentiment",
+                        displayName: dataPoint.category,
+                        value: dataPoint.invertSentiment,
+                        selector: dataPoint.selectionId.getSelector()
+                    }));
+                }
+            });
+        } else {
+            this.dataView.matrix.valueSources.forEach(source => {
+                if (source.roles["measure"]) {
+                    slices.push(new formattingSettings.ToggleSwitch({
+                        name: "invertSentiment",
+                        displayName: source.displayName,
+                        value: source.objects && source.objects.sentimentColor && source.objects.sentimentColor.invertSentiment ? true : false,
+                        selector: { metadata: source.queryName }
+                    }));
+                }
+            });
+            if (this.visualType == "drillableCategory") {
+                this.barChartData.forEach(dataPoint => {
+                    if (!dataPoint.isPillar && !dataPoint.isOther && dataPoint.selectionId) {
+                        slices.push(new formattingSettings.ToggleSwitch({
+                            name: "invertSentiment",
+                            displayName: dataPoint.displayName,
+                            value: dataPoint.invertSentiment,
+                            selector: dataPoint.selectionId.getSelector()
+                        }));
+                    }
+                });
+            }
+        }
+        return slices;
+    }
+    // drillable and sentiment coloured bars are not listed one by one, so their colour can only be set by a rule (fx) evaluated per data point
+    private conditionalColorSlice(name: string, displayName: string, defaultColor: string): formattingSettings.ColorPicker {
+        return new formattingSettings.ColorPicker({
+            name: name,
+            displayName: displayName,
+            value: this.color(defaultColor),
+            selector: dataViewWildcard.createDataViewWildcardSelector(dataViewWildcard.DataViewWildcardMatchingOption.InstancesAndTotals),
+            instanceKind: VisualEnumerationInstanceKinds.Rule
+        });
+    }
+    private cardXaxis(): formattingCard {
+        var xAxis = this.visualSettings.xAxisFormatting;
+        var labelsGroup = new formattingSettings.Group({
+            name: "xAxisLabels",
+            displayName: "Labels",
+            slices: [
+                new formattingSettings.FontControl({
+                    name: "font",
+                    displayName: "Font",
+                    fontFamily: new formattingSettings.FontPicker({ name: "fontFamily", value: xAxis.fontFamily }),
+                    fontSize: new formattingSettings.NumUpDown({ name: "fontSize", value: xAxis.fontSize })
+                }),
+                new formattingSettings.ColorPicker({ name: "fontColor", displayName: "Font Color", value: this.color(xAxis.fontColor) }),
+                new formattingSettings.ToggleSwitch({ name: "labelWrapText", displayName: "Wrap text", value: xAxis.labelWrapText }),
+                new formattingSettings.ToggleSwitch({ name: "showAngle", displayName: "Angle", value: xAxis.showAngle }),
+                new formattingSettings.NumUpDown({
+                    name: "xLabelAngle",
+                    displayName: "Label Rotation",
+                    value: xAxis.xLabelAngle,
+                    options: this.numberRange(-90, 90),
+                    visible: !xAxis.showAngle
+                })
+            ]
+        });
+        var barsGroup = new formattingSettings.Group({
+            name: "xAxisBars",
+            displayName: "Bars",
+            slices: [
+                new formattingSettings.ToggleSwitch({ name: "fitToWidth", displayName: "Fit to width", value: xAxis.fitToWidth }),
+                new formattingSettings.NumUpDown({
+                    name: "barWidth",
+                    displayName: "Minimum Bar Width",
+                    value: xAxis.barWidth,
+                    options: this.numberRange(10, 100),
+                    visible: !xAxis.fitToWidth
+                }),
+                new formattingSettings.NumUpDown({
+                    name: "padding",
+                    displayName: "Padding",
+                    value: xAxis.padding,
+                    options: this.numberRange(0, 20)
+                })
+            ]
+        });
+        var gridlinesGroup = new formattingSettings.Group({
+            name: "xAxisGridlines",
+            displayName: "Gridlines",
+            topLevelSlice: new formattingSettings.ToggleSwitch({ name: "showGridLine", displayName: "Show / Hide Gridlines", value: xAxis.showGridLine }),
+            slices: [
+                new formattingSettings.NumUpDown({
+                    name: "gridLineStrokeWidth",
+                    displayName: "Stroke Width",
+                    value: <number>this.defaultXAxisGridlineStrokeWidth,
+                    options: this.numberRange(1, 50),
+                    visible: xAxis.showGridLine
+                }),
+                new formattingSettings.ColorPicker({
+                    name: "gridLineColor",
+                    displayName: "Gridlines Color",
+                    value: this.color(xAxis.gridLineColor),
+                    visible: xAxis.showGridLine
+                })
+            ]
+        });
+        return new formattingCard("xAxisFormatting", "X-Axis", [labelsGroup, barsGroup, gridlinesGroup]);
+    }
+    private cardYaxis(): formattingCard {
+        var yAxis = this.visualSettings.yAxisFormatting;
+        var generalGroup = new formattingSettings.Group({
+            name: "yAxisGeneral",
+            displayName: "General",
+            slices: [
+                new formattingSettings.AutoDropdown({ name: "YAxisDataPointOption", displayName: "Base Starting Point", value: yAxis.YAxisDataPointOption }),
+                new formattingSettings.ToggleSwitch({
+                    name: "axisBreak",
+                    displayName: "Show Axis Break",
+                    description: "Mark the axis and the pillars with a break when the axis does not start at zero",
+                    value: yAxis.axisBreak,
+                    visible: yAxis.YAxisDataPointOption != "Zero"
+                }),
+                new formattingSettings.ColorPicker({
+                    name: "axisBreakColor",
+                    displayName: "Break Color",
+                    description: "The color of the gap cut into the pillars, usually the background color of the report",
+                    value: this.color(yAxis.axisBreakColor),
+                    visible: yAxis.YAxisDataPointOption != "Zero" && yAxis.axisBreak
+                }),
+                new formattingSettings.NumUpDown({
+                    name: "YAxisDataPointRangeStart",
+                    displayName: "Start Range  (approx.)",
+                    description: "Ignored when the Axis min measure is used",
+                    value: yAxis.YAxisDataPointRangeStart,
+                    visible: yAxis.YAxisDataPointOption == "Range"
+                }),
+                new formattingSettings.NumUpDown({
+                    name: "YAxisDataPointRangeEnd",
+                    displayName: "End Range (approx.)",
+                    description: "Ignored when the Axis max measure is used",
+                    value: yAxis.YAxisDataPointRangeEnd,
+                    visible: yAxis.YAxisDataPointOption == "Range"
+                }),
+                new formattingSettings.NumUpDown({
+                    name: "tickCount",
+                    displayName: "Tick Count",
+                    description: "Approximate number of ticks on the axis",
+                    value: yAxis.tickCount,
+                    options: this.numberRange(2, 20)
+                }),
+                new formattingSettings.NumUpDown({
+                    name: "tickInterval",
+                    displayName: "Tick Interval",
+                    description: "Fixed distance between two ticks, 0 to use the tick count",
+                    value: yAxis.tickInterval,
+                    options: { minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 } }
+                }),
+                new formattingSettings.ToggleSwitch({
+                    name: "niceDomain",
+                    displayName: "Round Axis Ends",
+                    description: "Extend the start and the end of the axis to the next tick",
+                    value: yAxis.niceDomain
+                })
+            ]
+        });
+        var valuesGroup = new formattingSettings.Group({
+            name: "yAxisValues",
+            displayName: "Values",
+            topLevelSlice: new formattingSettings.ToggleSwitch({ name: "showYAxisValues", displayName: "Show / Hide Values", value: yAxis.showYAxisValues }),
+            slices: [
+                new formattingSettings.FontControl({
+                    name: "font",
+                    displayName: "Font",
+                    fontFamily: new formattingSettings.FontPicker({ name: "fontFamily", value: yAxis.fontFamily }),
+                    fontSize: new formattingSettings.NumUpDown({ name: "fontSize", value: yAxis.fontSize }),
+                    visible: yAxis.showYAxisValues
+                }),
+                new formattingSettings.ColorPicker({ name: "fontColor", displayName: "Font Color", value: this.color(yAxis.fontColor), visible: yAxis.showYAxisValues }),
+                new formattingSettings.AutoDropdown({ name: "YAxisValueFormatOption", displayName: "Value Format", value: yAxis.YAxisValueFormatOption, visible: yAxis.showYAxisValues }),
+                new formattingSettings.TextInput({
+                    name: "customFormat",
+                    displayName: "Format String",
+                    placeholder: "#,0.00",
+                    value: yAxis.customFormat,
+                    visible: yAxis.showYAxisValues && yAxis.YAxisValueFormatOption == "Custom"
+                }),
+                new formattingSettings.NumUpDown({
+                    name: "decimalPlaces",
+                    displayName: "Value decimal places",
+                    value: yAxis.decimalPlaces,
+                    options: this.numberRange(0, 15),
+                    visible: yAxis.showYAxisValues && yAxis.YAxisValueFormatOption != "Custom"
+                })
+            ]
+        });
+        var gridlinesGroup = new formattingSettings.Group({
+            name: "yAxisGridlines",
+            displayName: "Gridlines",
+            topLevelSlice: new formattingSettings.ToggleSwitch({ name: "showGridLine", displayName: "Show / Hide Gridlines", value: yAxis.showGridLine }),
+            slices: [
+                new formattingSettings.NumUpDown({
+                    name: "gridLineStrokeWidth",
+                    displayName: "Stroke Width",
+                    value: <number>this.defaultYAxisGridlineStrokeWidth,
+                    options: this.numberRange(1, 50),
+                    visible: yAxis.showGridLine
+                }),
+                new formattingSettings.ColorPicker({ name: "gridLineColor", displayName: "Gridlines Color", value: this.color(yAxis.gridLineColor), visible: yAxis.showGridLine })
+            ]
+        });
+        var zeroLineGroup = new formattingSettings.Group({
+            name: "yAxisZeroLine",
+            displayName: "Zero Line",
+            topLevelSlice: new formattingSettings.ToggleSwitch({ name: "showZeroAxisGridLine", displayName: "Show Zero Line", value: yAxis.showZeroAxisGridLine }),
+            slices: [
+                new formattingSettings.NumUpDown({
+                    name: "zeroLineStrokeWidth",
+                    displayName: "Zero Line Width",
+                    value: yAxis.zeroLineStrokeWidth,
+                    options: this.numberRange(1, 50),
+                    visible: yAxis.showZeroAxisGridLine
+                }),
+                new formattingSettings.ColorPicker({ name: "zeroLineColor", displayName: "Zero Line Color", value: this.color(yAxis.zeroLineColor), visible: yAxis.showZeroAxisGridLine })
+            ]
+        });
+        var joinBarsGroup = new formattingSettings.Group({
+            name: "yAxisJoinBars",
+            displayName: "Join Bars",
+            topLevelSlice: new formattingSettings.ToggleSwitch({ name: "joinBars", displayName: "Join Bars", value: yAxis.joinBars }),
+            slices: [
+                new formattingSettings.NumUpDown({
+                    name: "joinBarsStrokeWidth",
+                    displayName: "Join Bar - Stroke Width",
+                    value: yAxis.joinBarsStrokeWidth,
+                    options: this.numberRange(1, 50),
+                    visible: yAxis.joinBars
+                }),
+                new formattingSettings.ColorPicker({ name: "joinBarsColor", displayName: "Join Bar - Color", value: this.color(yAxis.joinBarsColor), visible: yAxis.joinBars })
+            ]
+        });
+        return new formattingCard("yAxisFormatting", "Y-Axis", [generalGroup, valuesGroup, gridlinesGroup, zeroLineGroup, joinBarsGroup],
+            new formattingSettings.ToggleSwitch({ name: "show", displayName: "Y-Axis Show/Hide", value: yAxis.show }));
+    }
+    private cardLabelFormatting(): formattingCard {
+        var labels = this.visualSettings.LabelsFormatting;
+        var fontGroup = new formattingSettings.Group({
+            name: "labelsFont",
+            displayName: "Font",
+            slices: [
+                new formattingSettings.FontControl({
+                    name: "font",
+                    displayName: "Font",
+                    fontFamily: new formattingSettings.FontPicker({ name: "fontFamily", value: labels.fontFamily }),
+                    fontSize: new formattingSettings.NumUpDown({ name: "fontSize", value: labels.fontSize })
+                })
+            ]
+        });
+        var colorGroup = new formattingSettings.Group({
+            name: "labelsColor",
+            displayName: "Color",
+            slices: [
+                new formattingSettings.ToggleSwitch({ name: "useDefaultFontColor", displayName: "Use Default Font Color", value: labels.useDefaultFontColor })
+            ].concat(this.fontColorSlices())
+        });
+        var positionGroup = new formattingSettings.Group({
+            name: "labelsPosition",
+            displayName: "Position",
+            slices: [
+                new formattingSettings.ToggleSwitch({ name: "useDefaultLabelPositioning", displayName: "Use Default Label Positioning", value: labels.useDefaultLabelPositioning })
+            ].concat(this.labelPositionSlices())
+        });
+        var valuesGroup = new formattingSettings.Group({
+            name: "labelsValues",
+            displayName: "Values",
+            slices: [
+                new formattingSettings.AutoDropdown({ name: "valueFormat", displayName: "Value Format", value: labels.valueFormat }),
+                new formattingSettings.TextInput({
+                    name: "customFormat",
+                    displayName: "Format String",
+                    placeholder: "#,0.00",
+                    value: labels.customFormat,
+                    visible: labels.valueFormat == "Custom"
+                }),
+                new formattingSettings.AutoDropdown({ name: "labelContent", displayName: "Label Content", value: labels.labelContent }),
+                new formattingSettings.AutoDropdown({
+                    name: "percentReference",
+                    displayName: "Percent of",
+                    value: labels.percentReference,
+                    visible: labels.labelContent != "Value"
+                }),
+                new formattingSettings.NumUpDown({
+                    name: "decimalPlaces",
+                    displayName: "Value decimal places",
+                    value: labels.decimalPlaces,
+                    options: this.numberRange(0, 15),
+                    visible: labels.valueFormat != "Custom"
+                }),
+                new formattingSettings.ToggleSwitch({ name: "negativeInBrackets", displayName: "Negative value in brackets", value: labels.negativeInBrackets }),
+                new formattingSettings.AutoDropdown({ name: "signPrefix", displayName: "Step Sign", value: labels.signPrefix }),
+                new formattingSettings.ToggleSwitch({ name: "HideZeroBlankValues", displayName: "Hide Zero / Blank values", value: labels.HideZeroBlankValues })
+            ]
+        });
+        [fontGroup, colorGroup, positionGroup, valuesGroup].forEach(group => {
+            group.visible = labels.show;
+        });
+        return new formattingCard("LabelsFormatting", "Labels", [fontGroup, colorGroup, positionGroup, valuesGroup],
+            new formattingSettings.ToggleSwitch({ name: "show", displayName: "Show labels", value: labels.show }));
+    }
+    private fontColorSlices(): formattingSettings.SimpleSlice[] {
+        var labels = this.visualSettings.LabelsFormatting;
+        if (labels.useDefaultFontColor) {
+            return [new formattingSettings.ColorPicker({ name: "fontColor", displayName: "Default Font Color", value: this.color(labels.fontColor) })];
+        } else if (this.visualSettings.chartOrientation.useSentimentFeatures || !this.isStaticVisual()) {
+            var slices: formattingSettings.SimpleSlice[] = [
+                new formattingSettings.ColorPicker({ name: "sentimentFontColorTotal", displayName: "Total", value: this.color(labels.sentimentFontColorTotal) }),
+                new formattingSettings.ColorPicker({ name: "sentimentFontColorFavourable", displayName: "Increase", value: this.color(labels.sentimentFontColorFavourable) }),
+                new formattingSettings.ColorPicker({ name: "sentimentFontColorAdverse", displayName: "Decrease", value: this.color(labels.sentimentFontColorAdverse) }),
+                new formattingSettings.ColorPicker({ name: "sentimentFontColorOther", displayName: "Other", value: this.color(labels.sentimentFontColorOther) }),
+                new formattingSettings.ColorPicker({ name: "sentimentFontColorNeutral", displayName: "Neutral", value: this.color(labels.sentimentFontColorNeutral), visible: this.visualSettings.sentimentColor.neutralBand })
+            ];
+            slices.push(this.conditionalColorSlice("fill", "Conditional formatting", labels.sentimentFontColorFavourable));
+            return slices;
+        } else {
+            return this.dataPointSlices(
+                dataPoint => new formattingSettings.ColorPicker({
+                    name: "fill",
+                    displayName: dataPoint.category,
+                    value: this.color(dataPoint.customFontColor),
+                    selector: dataViewWildcard.createDataViewWildcardSelector(dataViewWildcard.DataViewWildcardMatchingOption.InstancesAndTotals),
+                    altConstantSelector: dataPoint.selectionId.getSelector(),
+                    instanceKind: VisualEnumerationInstanceKinds.ConstantOrRule
+                }),
+                dataPoint => new formattingSettings.ColorPicker({
+                    name: "sentimentFontColorOther",
+                    displayName: this.visualSettings.chartOrientation.otherLabel,
+                    value: this.color(labels.sentimentFontColorOther)
+                }));
+        }
+    }
+    private labelPositionSlices(): formattingSettings.SimpleSlice[] {
+        var labels = this.visualSettings.LabelsFormatting;
+        if (labels.useDefaultLabelPositioning) {
+            return [new formattingSettings.AutoDropdown({ name: "labelPosition", displayName: "Position of labels", value: labels.labelPosition })];
+        } else if (this.visualSettings.chartOrientation.useSentimentFeatures || !this.isStaticVisual()) {
+            return [
+                new formattingSettings.AutoDropdown({ name: "labelPositionTotal", displayName: "Totals", value: labels.labelPositionTotal }),
+                new formattingSettings.AutoDropdown({ name: "labelPositionFavourable", displayName: "Favourable", value: labels.labelPositionFavourable }),
+                new formattingSettings.AutoDropdown({ name: "labelPositionAdverse", displayName: "Adverse", value: labels.labelPositionAdverse }),
+                new formattingSettings.AutoDropdown({ name: "labelPositionOther", displayName: "Other", value: labels.labelPositionOther })
+            ];
+        } else {
+            return this.dataPointSlices(
+                dataPoint => new formattingSettings.AutoDropdown({
+                    name: "labelPosition",
+                    displayName: dataPoint.category,
+                    value: dataPoint.customLabelPositioning,
+                    selector: dataPoint.selectionId.getSelector()
+                }),
+                dataPoint => new formattingSettings.AutoDropdown({
+                    name: "labelPositionOther",
+                    displayName: this.visualSettings.chartOrientation.otherLabel,
+                    value: labels.labelPositionOther
+                }));
+        }
+    }
+    private cardSecondaryAxis(): formattingCard {
+        var secondaryAxis = this.visualSettings.secondaryAxis;
+        // the card is only shown when a measure is in the Line value role
+        var hasLineValue = this.dataView.matrix.valueSources.some(x => x.roles["lineValue"]);
+        var lineGroup = new formattingSettings.Group({
+            name: "secondaryAxisLine",
+            displayName: "Line",
+            visible: hasLineValue,
+            slices: [
+                new formattingSettings.ColorPicker({ name: "lineColor", displayName: "Line Color", value: this.color(secondaryAxis.lineColor) }),
+                new formattingSettings.NumUpDown({ name: "lineStrokeWidth", displayName: "Line Width", value: secondaryAxis.lineStrokeWidth, options: this.numberRange(1, 10) })
+            ]
+        });
+        var markersGroup = new formattingSettings.Group({
+            name: "secondaryAxisMarkers",
+            displayName: "Markers",
+            visible: hasLineValue,
+            topLevelSlice: new formattingSettings.ToggleSwitch({ name: "showMarkers", displayName: "Show Markers", value: secondaryAxis.showMarkers }),
+            slices: [
+                new formattingSettings.NumUpDown({
+                    name: "markerSize",
+                    displayName: "Marker Size",
+                    value: secondaryAxis.markerSize,
+                    options: this.numberRange(1, 20),
+                    visible: secondaryAxis.showMarkers
+                })
+            ]
+        });
+        var axisGroup = new formattingSettings.Group({
+            name: "secondaryAxisValues",
+            displayName: "Axis",
+            visible: hasLineValue,
+            topLevelSlice: new formattingSettings.ToggleSwitch({ name: "showAxis", displayName: "Show Axis", value: secondaryAxis.showAxis }),
+            slices: [
+                new formattingSettings.NumUpDown({
+                    name: "tickCount",
+                    displayName: "Tick Count",
+                    description: "Approximate number of ticks on the secondary axis",
+                    value: secondaryAxis.tickCount,
+                    options: this.numberRange(2, 20),
+                    visible: secondaryAxis.showAxis
+                }),
+                new formattingSettings.FontControl({
+                    name: "font",
+                    displayName: "Font",
+                    fontFamily: new formattingSettings.FontPicker({ name: "fontFamily", value: secondaryAxis.fontFamily }),
+                    fontSize: new formattingSettings.NumUpDown({ name: "fontSize", value: secondaryAxis.fontSize }),
+                    visible: secondaryAxis.showAxis
+                }),
+                new formattingSettings.ColorPicker({ name: "fontColor", displayName: "Font Color", value: this.color(secondaryAxis.fontColor), visible: secondaryAxis.showAxis })
+            ]
+        });
+        return new formattingCard("secondaryAxis", "Secondary Axis", [lineGroup, markersGroup, axisGroup], new formattingSettings.ToggleSwitch({
+            name: "show",
+            displayName: "Line Show / Hide",
+            value: secondaryAxis.show,
+            visible: hasLineValue
+        }));
+    }
+    private cardTargetMarkers(): formattingCard {
+        var targetMarkers = this.visualSettings.targetMarkers;
+        // the card is only shown when a measure is in the Target role
+        var hasTarget = this.dataView.matrix.valueSources.some(x => x.roles["target"]);
+        var markerGroup = new formattingSettings.Group({
+            name: "targetMarkersMarker",
+            displayName: "Marker",
+            visible: hasTarget,
+            slices: [
+                new formattingSettings.ColorPicker({ name: "markerColor", displayName: "Marker Color", value: this.color(targetMarkers.markerColor) }),
+                new formattingSettings.NumUpDown({ name: "markerStrokeWidth", displayName: "Marker Width", value: targetMarkers.markerStrokeWidth, options: this.numberRange(1, 10) })
+            ]
+        });
+        var labelGroup = new formattingSettings.Group({
+            name: "targetMarkersLabel",
+            displayName: "Variance Label",
+            visible: hasTarget,
+            topLevelSlice: new formattingSettings.ToggleSwitch({ name: "showVarianceLabel", displayName: "Show Variance Label", value: targetMarkers.showVarianceLabel }),
+            slices: [
+                new formattingSettings.FontControl({
+                    name: "font",
+                    displayName: "Font",
+                    fontFamily: new formattingSettings.FontPicker({ name: "fontFamily", value: targetMarkers.fontFamily }),
+                    fontSize: new formattingSettings.NumUpDown({ name: "fontSize", value: targetMarkers.fontSize }),
+                    visible: targetMarkers.showVarianceLabel
+                }),
+                new formattingSettings.ColorPicker({ name: "fontColor", displayName: "Font Color", value: this.color(targetMarkers.fontColor), visible: targetMarkers.showVarianceLabel })
+            ]
+        });
+        return new formattingCard("targetMarkers", "Target", [markerGroup, labelGroup], new formattingSettings.ToggleSwitch({
+            name: "show",
+            displayName: "Target Show / Hide",
+            value: targetMarkers.show,
+            visible: hasTarget
+        }));
+    }
+    private cardMargin(): formattingCard {
+        var margins = this.visualSettings.margins;
+        return new formattingCard("margins", "Margins", [
+            new formattingSettings.Group({
+                name: "margins",
+                displayName: "Margins",
+                slices: [
+                    new formattingSettings.NumUpDown({ name: "topMargin", displayName: "Top Margin", value: margins.topMargin, options: this.numberRange(0, 100) }),
+                    new formattingSettings.NumUpDown({ name: "bottomMargin", displayName: "Bottom Margin", value: margins.bottomMargin, options: this.numberRange(0, 100) }),
+                    new formattingSettings.NumUpDown({ name: "leftMargin", displayName: "Left Margin", value: margins.leftMargin, options: this.numberRange(0, 100) }),
+                    new formattingSettings.NumUpDown({ name: "rightMargin", displayName: "Right Margin", value: margins.rightMargin, options: this.numberRange(0, 100) })
+                ]
+            })
+        ]);
+    }
+}
@@ -38,6 +38,8 @@ export class VisualSettings extends DataViewObjectsParser {
   public yAxisFormatting: yAxisFormatting = new yAxisFormatting();  
   public LabelsFormatting: LabelsFormatting = new LabelsFormatting();
   public Legend: Legend = new Legend();
+  public secondaryAxis: secondaryAxis = new secondaryAxis();
+  public targetMarkers: targetMarkers = new targetMarkers();
   
 }
 export class chartOrientation {
@@ -46,25 +48,63 @@ export class chartOrientation {
   public sortData: number = 1;
   public limitBreakdown: boolean = false;
   public maxBreakdown: number = 5;
+  public limitBreakdownRule: string = "Absolute";
+  public otherLabel: string = "Other";
+  public expandOther: boolean = false;
   
 }
 export class definePillars {
   public Totalpillar: boolean = true;
+  public subtotalPillars: boolean = false;
+  public unexplainedText: string = "Unexplained";
 
 }
 export class Legend {
   public show: boolean = false;
+  public position: string = "Top";
+  public showTitle: boolean = false;
+  public titleText: string = "Legend";
+  public showPillars: boolean = false;
+  public textTotal: string = "Total";
+  public textSubtotal: string = "Subtotal";
   public fontSize: number = 9;
   public fontColor: string = "#777777";
   public fontFamily: string = "\"Segoe UI\", wf_segoe-ui_normal, helvetica, arial, sans-serif";
   public textFavourable: string = "Favourable";
   public textAdverse: string = "Adverse";
+  public textNeutral: string = "Neutral";
+}
+export class secondaryAxis {
+  public show: boolean = true;
+  public lineColor: string = "#333333";
+  public lineStrokeWidth: number = 2;
+  public showMarkers: boolean = true;
+  public markerSize: number = 4;
+  public showAxis: boolean = true;
+  public tickCount: number = 5;
+  public fontSize: number = 9;
+  public fontColor: string = "#777777";
+  public fontFamily: string = "\"Segoe UI\", wf_segoe-ui_normal, helvetica, arial, sans-serif";
+}
+export class targetMarkers {
+  public show: boolean = true;
+  public markerColor: string = "#000000";
+  public markerStrokeWidth: number = 2;
+  public showVarianceLabel: boolean = false;
+  public fontSize: number = 9;
+  public fontColor: string = "#777777";
+  public fontFamily: string = "\"Segoe UI\", wf_segoe-ui_normal, helvetica, arial, sans-serif";
 }
 export class sentimentColor {
   public sentimentColorTotal: string = "#0000ff";
   public sentimentColorFavourable: string = "#00b050";
   public sentimentColorAdverse: string = "#ff0000";
   public sentimentColorOther: string = "#F2C811";
+  public sentimentColorSubtotal: string = "#7F7FFF";
+  public neutralBand: boolean = false;
+  public neutralBandType: string = "Absolute";
+  public neutralBandValue: number = 0;
+  public sentimentColorNeutral: string = "#A6A6A6";
 }
 export class margins {
   public topMargin: number = 0;
@@ -92,13 +132,19 @@ export class xAxisFormatting {
 export class yAxisFormatting {
   public show: boolean = true;
   public YAxisDataPointOption: string = "Auto";
+  public axisBreak: boolean = false;
+  public axisBreakColor: string = "#ffffff";
   public YAxisDataPointRangeStart: number = 0;
   public YAxisDataPointRangeEnd: number = 0;
+  public tickCount: number = 5;
+  public tickInterval: number = 0;
+  public niceDomain: boolean = true;
   public showYAxisValues: boolean = true;  
   public fontSize: number = 9;
   public fontColor: string = "#777777";
   public fontFamily: string = "\"Segoe UI\", Arial, Calibiri, Helvetica, sans-serif";
   public YAxisValueFormatOption: string = "Auto";
+  public customFormat: string = "";
   public showGridLine: boolean = true;
   public YAxisAngle: number = 0;
   public gridLineStrokeWidth: number = 1;
@@ -122,8 +168,12 @@ export class LabelsFormatting {
   public sentimentFontColorFavourable: string = "#777777";
   public sentimentFontColorAdverse: string = "#777777";
   public sentimentFontColorOther: string = "#777777";
+  public sentimentFontColorNeutral: string = "#777777";
   public fontFamily: string = "\"Segoe UI\", Calibri, \"Century Gothic\", Helvetica, Arial, Sans-serif";
   public valueFormat: string = "Auto";
+  public customFormat: string = "";
+  public labelContent: string = "Value";
+  public percentReference: string = "Start";
   public useDefaultLabelPositioning: boolean = true;
   public labelPosition: string = "Outside end";
   public labelPositionTotal: string = "Outside end";
@@ -131,6 +181,7 @@ export class LabelsFormatting {
   public labelPositionAdverse: string = "Outside end";
   public labelPositionOther: string = "Outside end";  
   public negativeInBrackets: boolean = false;
+  public signPrefix: string = "None";
   public HideZeroBlankValues: boolean = false;
   public decimalPlaces: number = 0;
 }
\ No newline at end of file
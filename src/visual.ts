@@ -34,19 +34,18 @@ import VisualUpdateOptions = powerbi.extensibility.visual.VisualUpdateOptions;
 import IVisualEventService = powerbi.extensibility.IVisualEventService;
 import IVisual = powerbi.extensibility.visual.IVisual;
 import ILocalizationManager = powerbi.extensibility.ILocalizationManager;
-import EnumerateVisualObjectInstancesOptions = powerbi.EnumerateVisualObjectInstancesOptions;
-import VisualObjectInstance = powerbi.VisualObjectInstance;
 import IVisualHost = powerbi.extensibility.visual.IVisualHost;
 import DataView = powerbi.DataView;
-import VisualObjectInstanceEnumerationObject = powerbi.VisualObjectInstanceEnumerationObject;
 import { ITooltipServiceWrapper, createTooltipServiceWrapper, TooltipEventArgs } from "./tooltipServiceWrapper";
 import ISelectionIdBuilder = powerbi.visuals.ISelectionIdBuilder;
 import ISelectionId = powerbi.visuals.ISelectionId;
 import ISelectionManager = powerbi.extensibility.ISelectionManager;
 import DataViewHierarchyLevel = powerbi.DataViewHierarchyLevel;
 import DataViewMatrixNode = powerbi.DataViewMatrixNode;
+import DataViewMetadataColumn = powerbi.DataViewMetadataColumn;
 import DataViewCategoryColumn = powerbi.DataViewCategoryColumn;
 import DataViewObject = powerbi.DataViewObject;
+import DataViewObjects = powerbi.DataViewObjects;
 import PrimitiveValue = powerbi.PrimitiveValue;
 import * as SVGUtil from "powerbi-visuals-utils-svgutils";
 import SVGManipulations = SVGUtil.manipulation;
@@ -59,7 +58,7 @@ import {
 } from "powerbi-visuals-utils-formattingutils";
 import VisualTooltipDataItem = powerbi.extensibility.VisualTooltipDataItem;
 import { VisualSettings, yAxisFormatting, chartOrientation } from "./settings";
-import { IEnumerateObjects, createenumerateObjects } from "./enumerateObjects";
+import { IFormattingModel, createformattingModel } from "./formattingModel";
 import { dataRoleHelper } from "powerbi-visuals-utils-dataviewutils";
 import { AxisScale, AxisDomain } from "d3";
 
@@ -79,6 +78,21 @@ interface BarChartDataPoint {
     sortOrderIndex: number;
     sortOrderIndexforLimitBreakdown: number;
     displayName: string;
+    tooltipValues: VisualTooltipDataItem[];
+    labelPercent: number;
+    invertSentiment: boolean;
+    isSubtotal: boolean;
+    startEndType: string;
+    barType: string;
+    isOther: boolean;
+    otherSteps: any[];
+    lineValue: number;
+    targetValue: number;
+}
+interface LegendDataPoint {
+    text: string;
+    color: string;
+    legendClass: string;
 }
 interface BreakdownData {
     isPillar: number;
@@ -109,7 +123,7 @@ export class Visual implements IVisual {
     private chartContainer: d3.Selection<any, any, any, any>;
     private gScrollable: d3.Selection<any, any, any, any>;
     private visualSettings: VisualSettings;
-    private enumerateObjects: IEnumerateObjects;
+    private formattingModel: IFormattingModel;
     private adjustmentConstant: number;
     private minValue: number;
     private maxValue: number;
@@ -124,7 +138,12 @@ export class Visual implements IVisual {
     private barChartDataAll = [];
     private margin: { left: any; right: any; top: any; bottom: any; };
     private legendHeight: number;
+    private legendWidth: number;
+    private neutralBandThreshold: number;
+    // the number of leaves shown for each parent group when the steps are limited
+    private limitedLeafCounts: Map<DataViewMatrixNode, number> = new Map<DataViewMatrixNode, number>();
     private host: IVisualHost;
+    private localizationManager: ILocalizationManager;
     private selectionIdBuilder: ISelectionIdBuilder;
     private selectionManager: ISelectionManager;
     private tooltipServiceWrapper: ITooltipServiceWrapper;
@@ -134,16 +153,20 @@ export class Visual implements IVisual {
     private xAxisPosition = 0;
     private yAxisWidth = 0;
     private yAxisHeightHorizontal = 0;
+    private secondaryAxisSize = 0;
     private scrollbarBreath = 0;
     private yScaleTickValues = [];
     private events: IVisualEventService;
     private locale: string;
     private allowInteractions: boolean;
+    private measureCount: number;
+    private isSortedByHost: boolean;
 
 
 
     constructor(options: VisualConstructorOptions) {
         this.host = options.host;
+        this.localizationManager = options.host.createLocalizationManager();
         this.mainContainer = d3.select<HTMLElement, any>(options.element)
             .append('div');
         this.legendContainer = this.mainContainer
@@ -164,9 +187,9 @@ export class Visual implements IVisual {
         return <VisualSettings>VisualSettings.parse(dataView);
     }
 
-    public enumerateObjectInstances(options: EnumerateVisualObjectInstancesOptions): VisualObjectInstance[] | VisualObjectInstanceEnumerationObject {
-        this.enumerateObjects = createenumerateObjects(this.visualType, this.barChartData, this.barChartDataAll, this.visualSettings, this.defaultXAxisGridlineStrokeWidth(), this.defaultYAxisGridlineStrokeWidth(), this.visualUpdateOptions.dataViews[0]);
-        return this.enumerateObjects.enumerateObjectInstances(options);
+    public getFormattingModel(): powerbi.visuals.FormattingModel {
+        this.formattingModel = createformattingModel(this.visualType, this.barChartData, this.visualSettings, this.defaultXAxisGridlineStrokeWidth(), this.defaultYAxisGridlineStrokeWidth(), this.visualUpdateOptions.dataViews[0]);
+        return this.formattingModel.getFormattingModel();
     }
     public update(options: VisualUpdateOptions) {
         //Certification requirement to use rendering API//
@@ -177,13 +200,11 @@ export class Visual implements IVisual {
         let dataView: DataView = options.dataViews[0];
         this.visualSettings = Visual.parseSettings(options && options.dataViews && options.dataViews[0]);
         this.chartContainer.selectAll('svg').remove();
-        this.addLegend(options);
-        this.width = options.viewport.width;
-        this.height = options.viewport.height - this.legendHeight;
         this.xAxisPosition = 0;
-        if (dataView.matrix.rows.levels.length != 1){
-            this.visualSettings.chartOrientation.limitBreakdown=false;
-        }
+        // tooltip measures share the matrix values with the waterfall measures, only count the latter
+        this.measureCount = dataView.matrix.valueSources.filter(x => x.roles["measure"]).length;
+        this.isSortedByHost = dataView.metadata.columns.some(x => x.sort != undefined);
+        this.neutralBandThreshold = this.getNeutralBandThreshold(dataView);
         if (dataView.matrix.rows.levels.length == 0) {
             this.visualType = "static";
             this.barChartData = this.getDataStaticWaterfall(options);
@@ -191,7 +212,7 @@ export class Visual implements IVisual {
             var allData = [];
             allData.push(this.barChartData);
 
-        } else if (dataView.matrix.rows.levels.length == 1 && dataView.matrix.valueSources.length == 1) {
+        } else if (dataView.matrix.rows.levels.length == 1 && this.measureCount == 1) {
             this.visualType = "staticCategory";
             //this.barChartData = this.getDataStaticCategoryWaterfall(options);
             /*if (this.visualSettings.chartOrientation.limitBreakdown) {
@@ -205,7 +226,7 @@ export class Visual implements IVisual {
             allData.push(this.barChartData);
 
 
-        } else if (dataView.matrix.rows.levels.length != 1 && dataView.matrix.valueSources.length == 1) {
+        } else if (dataView.matrix.rows.levels.length != 1 && this.measureCount == 1) {
             this.visualType = "drillableCategory";
             var allData = this.getDataDrillableCategoryWaterfall(options);
             this.barChartDataAll = this.getDataDrillableCategoryWaterfall(options);
@@ -228,6 +249,11 @@ export class Visual implements IVisual {
 
 
         }
+        this.setLabelPercentValues(this.barChartData);
+        // the legend lists the bars, so it is added once the data is known
+        this.addLegend(options);
+        this.width = options.viewport.width - this.legendWidth;
+        this.height = options.viewport.height - this.legendHeight;
         this.createWaterfallGraph(options, allData);                
 
         //Certification requirement to use rendering API//
@@ -237,97 +263,179 @@ export class Visual implements IVisual {
 
     }
     private addLegend(options: VisualUpdateOptions) {
-        this.legendContainer.selectAll('svg').remove();
-        if (this.visualSettings.chartOrientation.useSentimentFeatures && this.visualSettings.Legend.show) {
-            //this.legendContainer.attr('width', options.viewport.width);
-            //this.legendContainer.attr('height', 0);
-
-            var circleFavourableSVG = this.legendContainer.append('svg');
-
-            var circleFavourable = circleFavourableSVG.append('circle');
-
-
-            var textFavourableSVG = this.legendContainer.append('svg')
-                /* .attr('width', 10 + "pt")
-                .attr('height', 10 + "pt") */
-                /* .style('margin-left', 2 + "pt")
-                .style('margin-right', 2 + "pt") */;
-            var textFavourable = textFavourableSVG.append('text')
-                .attr("x", 0)
-                .attr("y", "75%")
-                .style('font-size', this.visualSettings.Legend.fontSize + "pt")
-                .text(this.visualSettings.Legend.textFavourable)
-                .style('font-family', this.visualSettings.Legend.fontFamily)
-                .style('fill', this.visualSettings.Legend.fontColor);
-
-            var textBoxSize: DOMRect;
-            var textBoxSizeHeight: string | number | boolean | readonly (string | number)[] | d3.ValueFn<SVGSVGElement, any, string | number | boolean | readonly (string | number)[]>;
-            var textBoxSizeWidth: string | number | boolean | readonly (string | number)[] | d3.ValueFn<SVGSVGElement, any, string | number | boolean | readonly (string | number)[]>;
-            textBoxSize = textFavourable.node().getBoundingClientRect();
-            textBoxSizeHeight = textBoxSize.height;
-            textBoxSizeWidth = textBoxSize.width;
-            circleFavourableSVG
-                .attr('height', textBoxSizeHeight)
-                .attr('width', textBoxSizeHeight);
-
-            textFavourableSVG
-                .attr('width', textBoxSizeWidth)
-                .attr('height', textBoxSizeHeight);
-
-
-            circleFavourable
-                .attr("r", textBoxSizeHeight / 2 * .6)
-                .attr('cx', textBoxSizeHeight / 2)
-                .attr('cy', textBoxSizeHeight / 2)
-                .attr("fill", this.visualSettings.sentimentColor.sentimentColorFavourable);
-
-            var circleAdverseSVG = this.legendContainer.append('svg');
-
-            var circleAdverse = circleAdverseSVG.append('circle');
-
-            var textAdverseSVG = this.legendContainer.append('svg')
-                /* .attr('width', 10)
-                .attr('height', 10) */
-                /* .style('margin-left', 2 + "pt")
-                .style('margin-right', 2+ "pt") */;
-            var textAdverse = textAdverseSVG.append('text')
-                .attr("x", 0)
-                .attr("y", "75%")
-                .style('font-size', this.visualSettings.Legend.fontSize + "pt")
-                .text(this.visualSettings.Legend.textAdverse)
-                .style('font-family', this.visualSettings.Legend.fontFamily)
-                .style('fill', this.visualSettings.Legend.fontColor);
-
-
-            textBoxSize = textAdverse.node().getBoundingClientRect();
-            textBoxSizeHeight = textBoxSize.height;
-            textBoxSizeWidth = textBoxSize.width;
-            circleAdverseSVG
-                .attr('height', textBoxSizeHeight)
-                .attr('width', textBoxSizeHeight);
-
-            textAdverseSVG
-                .attr('width', textBoxSizeWidth)
-                .attr('height', textBoxSizeHeight);
-
-
-            circleAdverse
-                .attr("r", textBoxSizeHeight / 2 * .6)
-                .attr('cx', textBoxSizeHeight / 2)
-                .attr('cy', textBoxSizeHeight / 2)
-                .attr("fill", this.visualSettings.sentimentColor.sentimentColorAdverse);
+        var legend = this.visualSettings.Legend;
+        this.legendContainer.selectAll('*').remove();
+        this.legendHeight = 0;
+        this.legendWidth = 0;
+        var isVertical = legend.position == "Left" || legend.position == "Right";
+        var flexDirection = { "Top": "column", "Bottom": "column-reverse", "Left": "row", "Right": "row-reverse" };
+        this.mainContainer
+            .style('display', 'flex')
+            .style('flex-direction', flexDirection[legend.position] ? flexDirection[legend.position] : "column");
+        this.chartContainer.style('flex', 'none');
+        if (legend.show && this.usesSentimentColors()) {
+            // entries wrap onto new lines when the legend is at the top or bottom, and are stacked when it is at the side
             this.legendContainer
-                //.style('width', options.viewport.width)
-                .style('height', textBoxSizeHeight + "pt");
-            this.legendHeight = textBoxSizeHeight;
+                .style('display', 'flex')
+                .style('flex', 'none')
+                .style('flex-direction', isVertical ? 'column' : 'row')
+                .style('flex-wrap', isVertical ? 'nowrap' : 'wrap')
+                .style('align-items', isVertical ? 'flex-start' : 'center')
+                .style('overflow', 'hidden')
+                .style('width', isVertical ? null : options.viewport.width + "px")
+                .style('max-width', isVertical ? options.viewport.width * 0.3 + "px" : null)
+                .style('height', isVertical ? options.viewport.height + "px" : null);
+
+            if (legend.showTitle && legend.titleText) {
+                this.addLegendText(this.legendContainer.append('div'), legend.titleText)
+                    .style('font-weight', 'bold');
+            }
+            this.getLegendData().forEach(legendDataPoint => {
+                this.addLegendItem(legendDataPoint);
+            });
+
+            var legendSize: DOMRect = this.legendContainer.node().getBoundingClientRect();
+            if (isVertical) {
+                this.legendWidth = legendSize.width;
+            } else {
+                this.legendHeight = legendSize.height;
+            }
         } else {
             this.legendContainer
-                //.style('width', options.viewport.width)
-                .style('height', 0 + "pt");
-            this.legendHeight = 0;
+                .style('display', 'none');
         }
 
     }
+    private usesSentimentColors(): boolean {
+        return (this.visualType != "static" && this.visualType != "staticCategory") || this.visualSettings.chartOrientation.useSentimentFeatures;
+    }
+    private getLegendData(): LegendDataPoint[] {
+        var legend = this.visualSettings.Legend;
+        var sentimentColor = this.visualSettings.sentimentColor;
+        var legendData: LegendDataPoint[] = [];
+        var pillarData: LegendDataPoint[] = [];
+        var hasFavourable = false;
+        var hasAdverse = false;
+        var hasNeutral = false;
+        var hasTotal = false;
+        var hasSubtotal = false;
+        var otherDataPoint: BarChartDataPoint = null;
+        this.barChartData.forEach(d => {
+            var legendClass = this.getLegendClass(d);
+            if (legendClass == "Other") {
+                otherDataPoint = d;
+            } else if (legendClass == "Total") {
+                hasTotal = true;
+            } else if (legendClass == "Subtotal") {
+                hasSubtotal = true;
+            } else if (d.isPillar == 1) {
+                pillarData.push({ text: d.displayName, color: d.customBarColor, legendClass: legendClass });
+            } else if (legendClass == "Favourable") {
+                hasFavourable = true;
+            } else if (legendClass == "Adverse") {
+                hasAdverse = true;
+            } else if (legendClass == "Neutral") {
+                hasNeutral = true;
+            }
+        });
+        if (hasFavourable) {
+            legendData.push({ text: legend.textFavourable, color: sentimentColor.sentimentColorFavourable, legendClass: "Favourable" });
+        }
+        if (hasAdverse) {
+            legendData.push({ text: legend.textAdverse, color: sentimentColor.sentimentColorAdverse, legendClass: "Adverse" });
+        }
+        if (hasNeutral) {
+            legendData.push({ text: legend.textNeutral, color: sentimentColor.sentimentColorNeutral, legendClass: "Neutral" });
+        }
+        legendData = legendData.concat(pillarData);
+        if (hasSubtotal) {
+            legendData.push({ text: legend.textSubtotal, color: sentimentColor.sentimentColorSubtotal, legendClass: "Subtotal" });
+        }
+        if (hasTotal) {
+            legendData.push({ text: legend.textTotal, color: sentimentColor.sentimentColorTotal, legendClass: "Total" });
+        }
+        if (otherDataPoint != null) {
+            legendData.push({ text: this.visualSettings.chartOrientation.otherLabel, color: otherDataPoint.customBarColor, legendClass: "Other" });
+        }
+        return legendData;
+    }
+    // the legend entry a bar belongs to, each pillar has its own entry when the pillars are listed one by one
+    private getLegendClass(d: any): string {
+        if (d.isOther) {
+            return "Other";
+        } else if (d.isPillar == 1) {
+            if (this.visualSettings.Legend.showPillars) {
+                return "Pillar" + d.category;
+            }
+            return d.isSubtotal ? "Subtotal" : "Total";
+        } else if (this.isNeutral(d.value)) {
+            return "Neutral";
+        } else if (this.isAdverse(d.value, d.invertSentiment)) {
+            return "Adverse";
+        }
+        return "Favourable";
+    }
+    private addLegendItem(legendDataPoint: LegendDataPoint) {
+        var legendItem = this.legendContainer.append('div')
+            .style('display', 'flex')
+            .style('align-items', 'center')
+            .style('white-space', 'nowrap')
+            .style('margin-right', '4pt')
+            .style('cursor', 'pointer');
+        var circleSVG = legendItem.append('svg');
+        var circle = circleSVG.append('circle');
+        var legendText = this.addLegendText(legendItem, legendDataPoint.text);
+
+        var textBoxSizeHeight = legendText.node().getBoundingClientRect().height;
+        circleSVG
+            .attr('height', textBoxSizeHeight)
+            .attr('width', textBoxSizeHeight);
+
+        circle
+            .attr("r", textBoxSizeHeight / 2 * .6)
+            .attr('cx', textBoxSizeHeight / 2)
+            .attr('cy', textBoxSizeHeight / 2)
+            .attr("fill", legendDataPoint.color);
+
+        // highlight all the bars of the entry
+        legendItem.on('click', (event) => {
+            if (this.allowInteractions && this.visualType != "static") {
+                var selectionIds: ISelectionId[] = [];
+                this.barChartData
+                    .filter(d => this.getLegendClass(d) == legendDataPoint.legendClass)
+                    .forEach(d => {
+                        selectionIds = selectionIds.concat(this.getBarSelectionIds(d));
+                    });
+                if (selectionIds.length == 0) {
+                    return;
+                }
+                const isCtrlPressed: boolean = (event).ctrlKey;
+                if (this.selectionManager.hasSelection() && !isCtrlPressed) {
+                    this.bars.attr('fill-opacity', 1);
+                }
+                this.selectionManager
+                    .select(selectionIds, isCtrlPressed)
+                    .then((ids: ISelectionId[]) => {
+                        this.syncSelectionState(this.bars, ids);
+                    });
+                (event).stopPropagation();
+            }
+        });
+    }
+    private addLegendText(parent: d3.Selection<any, any, any, any>, text: string) {
+        return parent.append('span')
+            .style('font-size', this.visualSettings.Legend.fontSize + "pt")
+            .style('font-family', this.visualSettings.Legend.fontFamily)
+            .style('color', this.visualSettings.Legend.fontColor)
+            .text(text);
+    }
+    // the chart positions its axis from the position of its labels on the page, which moves with a legend above or left of it
+    private legendOffsetTop(): number {
+        return this.visualSettings.Legend.position == "Top" ? this.legendHeight : 0;
+    }
+    private legendOffsetLeft(): number {
+        return this.visualSettings.Legend.position == "Left" ? this.legendWidth : 0;
+    }
     private createWaterfallGraph(options: VisualUpdateOptions, allData: any[]) {
         this.allowInteractions = true;
         if (this.visualSettings.chartOrientation.orientation == "Horizontal") {
@@ -380,12 +488,21 @@ export class Visual implements IVisual {
 
         this.width = this.width - this.margin.left - this.yAxisWidth - 5;
         this.svg.attr("width", this.width);
+        // the secondary axis is drawn at the right of the chart area
+        this.secondaryAxisSize = this.getSecondaryAxisSize(false);
+        this.innerWidth = this.innerWidth - this.secondaryAxisSize;
         this.checkBarWidth(options);
         this.createXaxis(this.gScrollable, options, allData);
         this.createYAxis(this.svgYAxis, this.margin.left + this.yAxisWidth);
         this.createYAxis(this.gScrollable, 0);
         this.createBars(this.gScrollable, this.barChartData);
+        this.createAxisBreakMarkers(false);
+        this.createTargetMarkers(false);
         this.createLabels(this.gScrollable);
+        if (this.showLineOverlay()) {
+            this.createLineOverlay(this.gScrollable, false);
+            this.createSecondaryAxis(this.svg, false);
+        }
 
 
 
@@ -492,57 +609,100 @@ export class Visual implements IVisual {
         return currentgridLineStrokeWidth;
     }
     private yValue = d => d.value;
+    // fills the {0}, {1}... placeholders of a string resource
+    private getLocalizedText(key: string, values: PrimitiveValue[]): string {
+        var text = this.localizationManager.getDisplayName(key);
+        values.forEach((value, index) => {
+            text = text.replace("{" + index + "}", String(value));
+        });
+        return text;
+    }
     private xValue = (d: { category: any; }) => d.category;
 
     private getMinMaxValue() {
-        if (this.visualSettings.yAxisFormatting.YAxisDataPointOption == "Range"
-            && this.visualSettings.yAxisFormatting.YAxisDataPointRangeStart != 0 && this.visualSettings.yAxisFormatting.YAxisDataPointRangeEnd != 0) {
-            this.minValue = this.visualSettings.yAxisFormatting.YAxisDataPointRangeStart;
-            this.maxValue = this.visualSettings.yAxisFormatting.YAxisDataPointRangeEnd;
-        } else {
-            this.minValue = this.findMinCumulativeValue(this.barChartData);
-            this.maxValue = this.findMaxCumulativeValue(this.barChartData);
+        this.minValue = this.findMinCumulativeValue(this.barChartData);
+        this.maxValue = this.findMaxCumulativeValue(this.barChartData);
+
+        //the axis min and axis max measures take precedence over the range typed in the format pane
+        var rangeStart = this.getAxisRoleValue("axisMin", false);
+        var rangeEnd = this.getAxisRoleValue("axisMax", true);
+        //both typed bounds default to 0, which leaves the range to the data until one of them is changed
+        var yAxisSettings = this.visualSettings.yAxisFormatting;
+        if (yAxisSettings.YAxisDataPointOption == "Range" && (yAxisSettings.YAxisDataPointRangeStart != 0 || yAxisSettings.YAxisDataPointRangeEnd != 0)) {
+            if (rangeStart == null) {
+                rangeStart = yAxisSettings.YAxisDataPointRangeStart;
+            }
+            if (rangeEnd == null) {
+                rangeEnd = yAxisSettings.YAxisDataPointRangeEnd;
+            }
+        }
+        var fixedMin = rangeStart == null ? this.minValue : rangeStart;
+        var fixedMax = rangeEnd == null ? this.maxValue : rangeEnd;
+        if (fixedMin < fixedMax) {
+            this.minValue = fixedMin;
+            this.maxValue = fixedMax;
+        } else if (rangeStart != null || rangeEnd != null) {
+            this.host.displayWarningIcon(this.localizationManager.getDisplayName("Visual_YAxisRangeIgnored"),
+                this.getLocalizedText("Visual_YAxisRangeIgnoredDetail", [fixedMin, fixedMax]));
         }
 
         var yScale = d3.scaleLinear()
             .domain([this.minValue, this.maxValue])
             .range([this.innerHeight, 0]);
 
-        var ticksCount = 5;
-        var staticYscaleTIcks = yScale.ticks(ticksCount);
+        var ticksCount = Math.max(2, this.visualSettings.yAxisFormatting.tickCount);
+        var tickStep = this.getTickInterval();
+        var staticYscaleTIcks: number[];
+        if (tickStep > 0) {
+            staticYscaleTIcks = [];
+            for (let index = Math.ceil(this.minValue / tickStep); index * tickStep <= this.maxValue; index++) {
+                staticYscaleTIcks.push(index * tickStep);
+            }
+        } else {
+            staticYscaleTIcks = yScale.ticks(ticksCount);
+            tickStep = d3.tickStep(this.minValue, this.maxValue, ticksCount);
+        }
 
         //realigning the xaxis to the first tick value of yaxis    
-        if (this.minValue != 0) {
-            if (this.minValue > 0) {
-                var firstTickValueforPositive = staticYscaleTIcks[0] - (staticYscaleTIcks[1] - staticYscaleTIcks[0]);
-                this.minValue = firstTickValueforPositive;
-                staticYscaleTIcks.unshift(firstTickValueforPositive);
+        if (this.visualSettings.yAxisFormatting.niceDomain && staticYscaleTIcks.length > 0) {
+            if (this.minValue != 0) {
+                if (this.minValue > 0) {
+                    var firstTickValueforPositive = staticYscaleTIcks[0] - tickStep;
+                    this.minValue = firstTickValueforPositive;
+                    staticYscaleTIcks.unshift(firstTickValueforPositive);
+                }
+                if (this.maxValue < 0) {
+                    var firstTickValueforNegative = staticYscaleTIcks[staticYscaleTIcks.length - 1] + tickStep;
+                    this.maxValue = firstTickValueforNegative;
+                    staticYscaleTIcks.push(firstTickValueforNegative);
+                }
             }
-            if (this.maxValue < 0) {
-                var firstTickValueforNegative = staticYscaleTIcks[staticYscaleTIcks.length - 1] - (staticYscaleTIcks[staticYscaleTIcks.length - 2] - staticYscaleTIcks[staticYscaleTIcks.length - 1]);
-                this.maxValue = firstTickValueforNegative;
-                staticYscaleTIcks.push(firstTickValueforNegative);
+            if (this.maxValue > 0) {
+                var lastTickValueforPositive = staticYscaleTIcks[staticYscaleTIcks.length - 1] + tickStep;
+                this.maxValue = lastTickValueforPositive;
+                staticYscaleTIcks.push(lastTickValueforPositive);
+            }
+            if (this.minValue < 0) {
+                var lastTickValueforNegative = staticYscaleTIcks[0] - tickStep;
+                var lastTickValueforNegative2 = staticYscaleTIcks[0] - tickStep * 2;
+                //add 2 steps to have enough space between the xAxis and the labels.
+                this.minValue = lastTickValueforNegative2;
+                staticYscaleTIcks.unshift(lastTickValueforNegative, lastTickValueforNegative2);
             }
-        }
-        if (this.maxValue > 0) {
-            var lastTickValueforPositive = staticYscaleTIcks[staticYscaleTIcks.length - 1] + (staticYscaleTIcks[staticYscaleTIcks.length - 1] - staticYscaleTIcks[staticYscaleTIcks.length - 2]);
-            this.maxValue = lastTickValueforPositive;
-            staticYscaleTIcks.push(lastTickValueforPositive);
-        }
-        if (this.minValue < 0) {
-            var lastTickValueforNegative = staticYscaleTIcks[0] + (staticYscaleTIcks[0] - staticYscaleTIcks[1]);
-            var lastTickValueforNegative2 = staticYscaleTIcks[0] + (staticYscaleTIcks[0] - staticYscaleTIcks[1]) * 2;
-            //add 2 steps to have enough space between the xAxis and the labels.
-            this.minValue = lastTickValueforNegative2;
-            staticYscaleTIcks.unshift(lastTickValueforNegative, lastTickValueforNegative2);
         }
 
 
         this.yScaleTickValues = staticYscaleTIcks
-        this.visualSettings.yAxisFormatting.YAxisDataPointRangeStart = this.minValue;
-        this.visualSettings.yAxisFormatting.YAxisDataPointRangeEnd = this.maxValue;
 
 
+    }
+    // a fixed interval is ignored when it would draw more than 100 ticks
+    private getTickInterval(): number {
+        var tickInterval = this.visualSettings.yAxisFormatting.tickInterval;
+        if (tickInterval > 0 && (this.maxValue - this.minValue) / tickInterval <= 100) {
+            return tickInterval;
+        }
+        return 0;
     }
     private createYAxis(gParent: d3.Selection<any, any, any, any>, adjustLeft: number) {
 
@@ -624,6 +784,10 @@ export class Visual implements IVisual {
 
 
             yAxis.selectAll('line').attr('x2', this.innerWidth);
+            if (this.getAxisBreak() != 0) {
+                var breakPosition = this.getAxisBreak() > 0 ? this.innerHeight - this.axisBreakOffset : this.axisBreakOffset;
+                this.createAxisBreakMarker(yAxis, -6, breakPosition, 12, false);
+            }
         }
         
         g.attr('transform', `translate(${adjustLeft},${this.margin.top})`);
@@ -670,6 +834,233 @@ export class Visual implements IVisual {
     }
     
 
+    // 1 when the value axis is cut below its lowest value, -1 when it is cut above its highest value and 0 when it is not cut
+    private getAxisBreak(): number {
+        if (!this.visualSettings.yAxisFormatting.axisBreak) {
+            return 0;
+        }
+        if (this.minValue > 0) {
+            return 1;
+        }
+        if (this.maxValue < 0) {
+            return -1;
+        }
+        return 0;
+    }
+    private axisBreakOffset: number = 10;
+    // marks the axis break on every pillar that is drawn from the cut end of the axis and long enough to hold the break
+    private createAxisBreakMarkers(isHorizontal: boolean) {
+        var axisBreak = this.getAxisBreak();
+        if (axisBreak == 0) {
+            return;
+        }
+        this.bars.each((d, i, nodes) => {
+            var bar = d3.select(nodes[i]);
+            var x = parseFloat(bar.attr('x'));
+            var y = parseFloat(bar.attr('y'));
+            var width = parseFloat(bar.attr('width'));
+            var height = parseFloat(bar.attr('height'));
+            var length = isHorizontal ? width : height;
+            if (d.isPillar == 1 && d.value * axisBreak > 0 && length > this.axisBreakOffset) {
+                var marker: d3.Selection<SVGPathElement, unknown, null, undefined>;
+                if (isHorizontal) {
+                    var breakX = axisBreak > 0 ? x + this.axisBreakOffset : x + width - this.axisBreakOffset;
+                    marker = this.createAxisBreakMarker(d3.select((nodes[i] as SVGRectElement).parentNode as SVGGElement), breakX, y, height, true);
+                } else {
+                    var breakY = axisBreak > 0 ? y + height - this.axisBreakOffset : y + this.axisBreakOffset;
+                    marker = this.createAxisBreakMarker(d3.select((nodes[i] as SVGRectElement).parentNode as SVGGElement), x, breakY, width, false);
+                }
+                marker.style('stroke', this.visualSettings.yAxisFormatting.axisBreakColor).style('stroke-width', 3);
+            }
+        });
+    }
+    // a zig-zag line starting at (x, y), drawn down when vertical and to the right otherwise
+    private createAxisBreakMarker(gParent: d3.Selection<any, any, any, any>, x: number, y: number, length: number, isVertical: boolean) {
+        var path = d3.path();
+        var amplitude = 3;
+        for (let position = 0, index = 0; position <= length; position = position + amplitude, index++) {
+            var offset = index % 2 == 0 ? -amplitude : amplitude;
+            var pointX = isVertical ? x + offset : x + position;
+            var pointY = isVertical ? y + position : y + offset;
+            if (index == 0) {
+                path.moveTo(pointX, pointY);
+            } else {
+                path.lineTo(pointX, pointY);
+            }
+        }
+        return gParent.append('path')
+            .attr('class', 'axisBreak')
+            .attr('d', path.toString())
+            .style('fill', 'none')
+            .style('stroke', this.visualSettings.yAxisFormatting.fontColor)
+            .style('stroke-width', 1)
+            .style('pointer-events', 'none');
+    }
+    private hasTargetMarker(d: BarChartDataPoint): boolean {
+        return this.visualSettings.targetMarkers.show && d.isPillar == 1 && d.targetValue != undefined;
+    }
+    private getTargetValues(data: BarChartDataPoint[]): number[] {
+        return data.filter(d => this.hasTargetMarker(d)).map(d => d.targetValue);
+    }
+    // the total and end pillars are compared to the grand total of the target, or to the target of the closing category
+    // when the matrix has no grand total, so the opening categories are not counted twice
+    private getTotalTargetValue(): number {
+        var root = this.visualUpdateOptions.dataViews[0].matrix.rows.root;
+        var targetValue = this.getNodeRoleValue(root, "target");
+        if (targetValue == undefined) {
+            var closingNode = root;
+            while (closingNode.children && closingNode.children.length > 0) {
+                closingNode = closingNode.children[closingNode.children.length - 1];
+            }
+            targetValue = this.getNodeRoleValue(closingNode, "target");
+        }
+        return targetValue;
+    }
+    // the markers use the same scale as the bars, so they follow the axis base moved by findXaxisAdjustment
+    private createTargetMarkers(isHorizontal: boolean) {
+        var targetMarkers = this.visualSettings.targetMarkers;
+        var yScale = d3.scaleLinear()
+            .domain([this.minValue, this.maxValue])
+            .range(isHorizontal ? [0, this.innerWidth + this.xAxisPosition - this.scrollbarBreath] : [this.innerHeight, 0]);
+        this.bars.each((d, i, nodes) => {
+            // a target cut off by a fixed axis range is only shown in the tooltip
+            if (!this.hasTargetMarker(d) || d.targetValue < this.minValue || d.targetValue > this.maxValue) {
+                return;
+            }
+            var bar = d3.select(nodes[i]);
+            var x = parseFloat(bar.attr('x'));
+            var y = parseFloat(bar.attr('y'));
+            var width = parseFloat(bar.attr('width'));
+            var height = parseFloat(bar.attr('height'));
+            var g = d3.select((nodes[i] as SVGRectElement).parentNode as SVGGElement).append('g').attr('class', 'targetMarker');
+            var targetPosition = yScale(d.targetValue);
+            var marker = g.append('line')
+                .style('stroke', targetMarkers.markerColor)
+                .style('stroke-width', targetMarkers.markerStrokeWidth)
+                .style('pointer-events', 'none');
+            if (isHorizontal) {
+                marker.attr('x1', targetPosition).attr('x2', targetPosition).attr('y1', y - 3).attr('y2', y + height + 3);
+            } else {
+                marker.attr('x1', x - 3).attr('x2', x + width + 3).attr('y1', targetPosition).attr('y2', targetPosition);
+            }
+            if (targetMarkers.showVarianceLabel) {
+                var targetVariance = d.value as number - d.targetValue;
+                var label = g.append('text')
+                    .text((targetVariance > 0 ? "+" : "") + this.formatValueforvalues(targetVariance, d.numberFormat))
+                    .style('font-size', targetMarkers.fontSize + "pt")
+                    .style('font-family', targetMarkers.fontFamily)
+                    .style('fill', targetMarkers.fontColor)
+                    .style('pointer-events', 'none');
+                if (isHorizontal) {
+                    label.attr('x', targetPosition + 4).attr('y', y + height / 2).attr('dominant-baseline', 'middle');
+                } else {
+                    label.attr('x', x + width / 2).attr('y', targetPosition - 4).attr('text-anchor', 'middle');
+                }
+            }
+        });
+    }
+    private showLineOverlay(): boolean {
+        return this.visualSettings.secondaryAxis.show && this.getRoleSource("lineValue") != null
+            && this.barChartData.some(d => d.lineValue != undefined);
+    }
+    private formatLineValue(value: number): string {
+        var iValueFormatter = valueFormatter.create({ cultureSelector: this.locale, format: this.getRoleSource("lineValue").format });
+        return iValueFormatter.format(value);
+    }
+    // the secondary axis always shows zero, like the value axis in its Zero mode
+    private getLineScale(range: number[]) {
+        var lineValues = this.barChartData.filter(d => d.lineValue != undefined).map(d => d.lineValue);
+        return d3.scaleLinear()
+            .domain([Math.min(0, ...lineValues), Math.max(0, ...lineValues)])
+            .range(range)
+            .nice();
+    }
+    private getSecondaryAxisSize(isHorizontal: boolean): number {
+        if (!this.showLineOverlay() || !this.visualSettings.secondaryAxis.showAxis) {
+            return 0;
+        }
+        var g = this.svg.append('g');
+        this.createSecondaryAxis(g, isHorizontal);
+        var axisSize = isHorizontal ? g.node().getBoundingClientRect().height : g.node().getBoundingClientRect().width;
+        g.remove();
+        return axisSize + 5;
+    }
+    private createSecondaryAxis(gParent: d3.Selection<any, any, any, any>, isHorizontal: boolean) {
+        var secondaryAxis = this.visualSettings.secondaryAxis;
+        if (!secondaryAxis.showAxis) {
+            return;
+        }
+        var ticksCount = Math.max(2, secondaryAxis.tickCount);
+        var g = gParent.append('g').attr('class', 'secondaryAxis')
+            .style("font-size", secondaryAxis.fontSize + "pt")
+            .style("font-family", secondaryAxis.fontFamily)
+            .style("color", secondaryAxis.fontColor);
+        if (isHorizontal) {
+            var yScale = this.getLineScale([0, this.innerWidth + this.xAxisPosition - this.scrollbarBreath]);
+            g.call(d3.axisBottom(yScale).ticks(ticksCount).tickFormat(d => this.formatLineValue(<number>d)));
+            g.attr('transform', `translate(${-this.findRightHorizontal},${this.yAxisHeightHorizontal})`);
+        } else {
+            var yScale = this.getLineScale([this.innerHeight, 0]);
+            g.call(d3.axisRight(yScale).ticks(ticksCount).tickFormat(d => this.formatLineValue(<number>d)));
+            g.attr('transform', `translate(${this.width - this.secondaryAxisSize},${this.margin.top})`);
+        }
+        g.selectAll('path').style('stroke', secondaryAxis.fontColor);
+        g.selectAll('line').style('stroke', secondaryAxis.fontColor);
+    }
+    // the line is drawn through the middle of the bars, so its markers share their selection and tooltips
+    // the positions are read from the drawn bars, like the target markers, so they follow the bar width and scrolling
+    private createLineOverlay(gParent: d3.Selection<any, any, any, any>, isHorizontal: boolean) {
+        var secondaryAxis = this.visualSettings.secondaryAxis;
+        var barCenters = new Map<string, number>();
+        this.bars.each((d, i, nodes) => {
+            var bar = d3.select(nodes[i]);
+            var center = isHorizontal
+                ? parseFloat(bar.attr('y')) + parseFloat(bar.attr('height')) / 2
+                : parseFloat(bar.attr('x')) + parseFloat(bar.attr('width')) / 2;
+            barCenters.set(d.category, center);
+        });
+        var g = gParent.append('g').attr('class', 'lineOverlay');
+        var yScale = isHorizontal
+            ? this.getLineScale([0, this.innerWidth + this.xAxisPosition - this.scrollbarBreath])
+            : this.getLineScale([this.innerHeight, 0]);
+        var categoryPosition = (d: BarChartDataPoint) => barCenters.get(d.category);
+        var line = d3.line<BarChartDataPoint>()
+            .defined(d => d.lineValue != undefined)
+            .x(d => isHorizontal ? yScale(d.lineValue) : categoryPosition(d))
+            .y(d => isHorizontal ? categoryPosition(d) : yScale(d.lineValue));
+
+        g.append('path')
+            .datum(this.barChartData)
+            .attr('d', line)
+            .style('fill', 'none')
+            .style('stroke', secondaryAxis.lineColor)
+            .style('stroke-width', secondaryAxis.lineStrokeWidth)
+            .style('pointer-events', 'none');
+
+        if (secondaryAxis.showMarkers) {
+            var markers = g.selectAll('circle')
+                .data(this.barChartData.filter(d => d.lineValue != undefined))
+                .enter().append('circle')
+                .attr('cx', d => isHorizontal ? yScale(d.lineValue) : categoryPosition(d))
+                .attr('cy', d => isHorizontal ? categoryPosition(d) : yScale(d.lineValue))
+                .attr('r', secondaryAxis.markerSize)
+                .attr('fill', secondaryAxis.lineColor);
+
+            this.syncSelectionState(markers, <ISelectionId[]>this.selectionManager.getSelectionIds());
+            markers.on('click', this.selectBar);
+            this.tooltipServiceWrapper.addTooltip(markers,
+                (tooltipEvent: TooltipEventArgs<number>) => this.getTooltipData(tooltipEvent.data),
+                (tooltipEvent: TooltipEventArgs<number>) => this.getTooltipSelectionID(tooltipEvent.data));
+            // the markers are highlighted together with the bars
+            this.bars = this.bars.merge(<d3.Selection<d3.BaseType, any, d3.BaseType, any>>markers);
+        }
+
+        if (isHorizontal) {
+            g.attr('transform', `translate(${-this.findRightHorizontal},${0})`);
+        } else {
+            g.attr('transform', `translate(${0},${this.margin.top})`);
+        }
+    }
     private yBreakdown(d: BarChartDataPoint, i: number): number {
         var yBreakdownValue = 0;
         var startingPointCumulative = 0;
@@ -816,7 +1207,7 @@ export class Visual implements IVisual {
                 .append('text')
                 .attr('class', 'labels');
             var labelFormatting = d => {
-                return this.formatValueforLabels(d);
+                return this.formatLabelText(d);
                 //return this.formattedValuefromData(d);
             }
 
@@ -836,7 +1227,7 @@ export class Visual implements IVisual {
             .call(this.labelFitToWidth);
         this.tooltipServiceWrapper.addTooltip(g.selectAll('.labels'),
             (tooltipEvent: TooltipEventArgs<number>) => this.getTooltipData(tooltipEvent.data),
-            (tooltipEvent: TooltipEventArgs<number>) => null);
+            (tooltipEvent: TooltipEventArgs<number>) => this.getTooltipSelectionID(tooltipEvent.data));
 
         g.selectAll(".labels")
             .call(this.labelAlignment, xScale.bandwidth());
@@ -911,22 +1302,7 @@ export class Visual implements IVisual {
             <ISelectionId[]>this.selectionManager.getSelectionIds()
         );
         if (this.visualType == "drillable" || this.visualType == "staticCategory" || this.visualType == "drillableCategory") {
-            this.bars.on('click', (event, d) => {
-                // Allow selection only if the visual is rendered in a view that supports interactivity (e.g. Report)
-
-                if (this.allowInteractions) {
-                    const isCtrlPressed: boolean = (event).ctrlKey;
-                    if (this.selectionManager.hasSelection() && !isCtrlPressed) {
-                        this.bars.attr('fill-opacity', 1);
-                    }
-                    this.selectionManager
-                        .select(d.selectionId, isCtrlPressed)
-                        .then((ids: ISelectionId[]) => {
-                            this.syncSelectionState(this.bars, ids);
-                        });
-                    (event).stopPropagation();
-                }
-            });
+            this.bars.on('click', this.selectBar);
         }
 
         this.tooltipServiceWrapper.addTooltip(g.selectAll('rect'),
@@ -937,6 +1313,22 @@ export class Visual implements IVisual {
 
 
 
+    }
+    // click handler of the bars and of the line markers drawn over them
+    private selectBar = (event: MouseEvent, d: BarChartDataPoint) => {
+        // Allow selection only if the visual is rendered in a view that supports interactivity (e.g. Report)
+        if (this.allowInteractions) {
+            const isCtrlPressed: boolean = event.ctrlKey;
+            if (this.selectionManager.hasSelection() && !isCtrlPressed) {
+                this.bars.attr('fill-opacity', 1);
+            }
+            this.selectionManager
+                .select(this.getBarSelectionIds(d), isCtrlPressed)
+                .then((ids: ISelectionId[]) => {
+                    this.syncSelectionState(this.bars, ids);
+                });
+            event.stopPropagation();
+        }
     }
     private syncSelectionState = (bars, selectionIds: ISelectionId[]) => {
         if (!selectionIds.length) {
@@ -944,13 +1336,22 @@ export class Visual implements IVisual {
             return;
         }
         bars.each((d, i, nodes) => {
-            const isSelected: boolean = this.isSelectionIdInArray(selectionIds, d.selectionId);
+            const isSelected: boolean = this.getBarSelectionIds(d).some(selectionId => this.isSelectionIdInArray(selectionIds, selectionId));
             d3.select(nodes[i]).attr('fill-opacity', isSelected
                 ? 1
                 : 0.5
             );
         });
     }
+    // the "Other" bar stands for the categories folded into it
+    private getBarSelectionIds(d: any): ISelectionId[] {
+        if (d.otherSteps) {
+            return d.otherSteps
+                .filter(step => step.selectionId)
+                .map(step => step.selectionId);
+        }
+        return d.selectionId ? [d.selectionId] : [];
+    }
     private isSelectionIdInArray(selectionIds: ISelectionId[], selectionId: ISelectionId): boolean {
 
         if (!selectionIds || !selectionId) {
@@ -970,7 +1371,48 @@ export class Visual implements IVisual {
         return defaultwidth;
     }
     private getTooltipSelectionID(value: any): ISelectionId {
-        return value.selectionId;
+        // synthetic bars (totals, "Other" and the pillars built from measure differences) carry no category identity,
+        // so a report page tooltip opened from them is filtered by the filter context of the whole visual only
+        return value.selectionId ? value.selectionId : null;
+    }
+    private getTooltipValues(node: DataViewMatrixNode): VisualTooltipDataItem[] {
+        let dataView: DataView = this.visualUpdateOptions.dataViews[0];
+        var tooltipValues: VisualTooltipDataItem[] = [];
+        if (node == null || node.values == null) {
+            return tooltipValues;
+        }
+        dataView.matrix.valueSources.forEach((source, index) => {
+            if (source.roles["Tooltips"] && node.values[index] != undefined) {
+                var iValueFormatter = valueFormatter.create({ cultureSelector: this.locale, format: source.format });
+                tooltipValues.push({
+                    displayName: source.displayName,
+                    value: iValueFormatter.format(node.values[index].value)
+                });
+            }
+        });
+        return tooltipValues;
+    }
+    // the Tooltips measures of the steps folded into "Other" are added up, text measures cannot be and are left out
+    private getOtherTooltipValues(otherSteps: any[]): VisualTooltipDataItem[] {
+        let dataView: DataView = this.visualUpdateOptions.dataViews[0];
+        var tooltipValues: VisualTooltipDataItem[] = [];
+        var nodes: DataViewMatrixNode[] = otherSteps.filter(step => step.node).map(step => step.node);
+        dataView.matrix.valueSources.forEach((source, index) => {
+            if (source.roles["Tooltips"] && source.type && source.type.numeric) {
+                var totalValue = 0;
+                nodes.forEach(node => {
+                    if (node.values && node.values[index] != undefined) {
+                        totalValue = totalValue + (+node.values[index].value);
+                    }
+                });
+                var iValueFormatter = valueFormatter.create({ cultureSelector: this.locale, format: source.format });
+                tooltipValues.push({
+                    displayName: source.displayName,
+                    value: iValueFormatter.format(totalValue)
+                });
+            }
+        });
+        return tooltipValues;
     }
     private getTooltipData(value: any): VisualTooltipDataItem[] {
 
@@ -997,6 +1439,57 @@ export class Visual implements IVisual {
             }
 
         }
+        if (value.toolTipVarianceFormatted != undefined) {
+            tooltip.push({
+                displayName: this.localizationManager.getDisplayName("Visual_Variance"),
+                value: value.toolTipVarianceFormatted
+            });
+            if (value.toolTipVariancePercentFormatted != undefined) {
+                tooltip.push({
+                    displayName: this.localizationManager.getDisplayName("Visual_VariancePercent"),
+                    value: value.toolTipVariancePercentFormatted
+                });
+            }
+            if (value.toolTipContributionFormatted != undefined) {
+                tooltip.push({
+                    displayName: this.localizationManager.getDisplayName("Visual_ContributionToMovement"),
+                    value: value.toolTipContributionFormatted
+                });
+            }
+        }
+        if (value.otherSteps) {
+            value.otherSteps.forEach(step => {
+                tooltip.push({
+                    displayName: step.displayName,
+                    value: this.formatValueforvalues(+step.value, value.numberFormat)
+                });
+            });
+        }
+        if (this.hasTargetMarker(value)) {
+            var targetVariance = value.value - value.targetValue;
+            tooltip.push({
+                displayName: this.getRoleSource("target").displayName,
+                value: this.formatValueforvalues(value.targetValue, value.numberFormat)
+            }, {
+                displayName: this.localizationManager.getDisplayName("Visual_VarianceToTarget"),
+                value: this.formatValueforvalues(targetVariance, value.numberFormat)
+            });
+            if (value.targetValue != 0) {
+                tooltip.push({
+                    displayName: this.localizationManager.getDisplayName("Visual_VarianceToTargetPercent"),
+                    value: this.formatPercent(targetVariance / Math.abs(value.targetValue))
+                });
+            }
+        }
+        if (value.lineValue != undefined) {
+            tooltip.push({
+                displayName: this.getRoleSource("lineValue").displayName,
+                value: this.formatLineValue(value.lineValue)
+            });
+        }
+        if (value.tooltipValues) {
+            tooltip = tooltip.concat(value.tooltipValues);
+        }
         return tooltip;
     }
     private getTooltipXaxis(value: any): VisualTooltipDataItem[] {
@@ -1040,6 +1533,7 @@ export class Visual implements IVisual {
                     cumulativeDataPoints.push(data[index].value)
                 }
             }
+            cumulativeDataPoints.push(...this.getTargetValues(data));
             minDataPoint = Math.min(...cumulativeDataPoints);
             maxDataPoint = Math.max(...cumulativeDataPoints);
 
@@ -1079,6 +1573,7 @@ export class Visual implements IVisual {
                 }
 
             }
+            cumulativeDataPoints.push(...this.getTargetValues(data));
             minDataPoint = Math.min(...cumulativeDataPoints);
 
             if (minDataPoint > 0) {
@@ -1111,6 +1606,7 @@ export class Visual implements IVisual {
                     cumulativeDataPoints.push(data[index].value);
                 }
             }
+            cumulativeDataPoints.push(...this.getTargetValues(data));
             maxDataPoint = Math.max(...cumulativeDataPoints);
             if (maxDataPoint < 0) {
                 if (this.adjustmentConstant == 0) {
@@ -1124,12 +1620,14 @@ export class Visual implements IVisual {
         }
         return maxDataPoint;
     }
-    private getfillColor(isPillar: number, value: number) {
+    private getfillColor(isPillar: number, value: number, invertSentiment: boolean = false) {
         var barColor: string = "#777777";
         if (isPillar == 1) {
             barColor = this.visualSettings.sentimentColor.sentimentColorTotal;
+        } else if (this.isNeutral(value)) {
+            barColor = this.visualSettings.sentimentColor.sentimentColorNeutral;
         } else {
-            if (value < 0) {
+            if (this.isAdverse(value, invertSentiment)) {
                 barColor = this.visualSettings.sentimentColor.sentimentColorAdverse;
             } else {
                 barColor = this.visualSettings.sentimentColor.sentimentColorFavourable;
@@ -1138,26 +1636,28 @@ export class Visual implements IVisual {
         return barColor;
 
     }
-    private getLabelFontColor(isPillar: number, value: number) {
+    private getLabelFontColor(isPillar: number, value: number, invertSentiment: boolean = false) {
         if (this.visualSettings.LabelsFormatting.useDefaultFontColor) {
             return this.visualSettings.LabelsFormatting.fontColor;
         } else {
             if (isPillar == 1) {
                 return this.visualSettings.LabelsFormatting.sentimentFontColorTotal;
-            } else if (value < 0) {
+            } else if (this.isNeutral(value)) {
+                return this.visualSettings.LabelsFormatting.sentimentFontColorNeutral;
+            } else if (this.isAdverse(value, invertSentiment)) {
                 return this.visualSettings.LabelsFormatting.sentimentFontColorAdverse;
             } else {
                 return this.visualSettings.LabelsFormatting.sentimentFontColorFavourable;
             }
         }
     }
-    private getLabelPosition(isPillar: number, value: number) {
+    private getLabelPosition(isPillar: number, value: number, invertSentiment: boolean = false) {
         if (this.visualSettings.LabelsFormatting.useDefaultLabelPositioning) {
             return this.visualSettings.LabelsFormatting.labelPosition;
         } else {
             if (isPillar == 1) {
                 return this.visualSettings.LabelsFormatting.labelPositionTotal;
-            } else if (value < 0) {
+            } else if (this.isAdverse(value, invertSentiment)) {
                 return this.visualSettings.LabelsFormatting.labelPositionAdverse;
             } else {
                 return this.visualSettings.LabelsFormatting.labelPositionFavourable;
@@ -1165,15 +1665,175 @@ export class Visual implements IVisual {
         }
 
     }
+    // for cost measures an increase is adverse
+    private isAdverse(value: number, invertSentiment: boolean) {
+        return invertSentiment ? value > 0 : value < 0;
+    }
+    // steps moving no more than the neutral band are neither favourable nor adverse
+    private isNeutral(value: number) {
+        return this.neutralBandThreshold != null && Math.abs(value) <= this.neutralBandThreshold;
+    }
+    private getNeutralBandThreshold(dataView: DataView): number {
+        var sentimentColor = this.visualSettings.sentimentColor;
+        if (!sentimentColor.neutralBand) {
+            return null;
+        }
+        if (sentimentColor.neutralBandType == "Relative") {
+            var openingPillarValue = this.getOpeningPillarValue(dataView);
+            if (openingPillarValue == null) {
+                return null;
+            }
+            return Math.abs(openingPillarValue) * sentimentColor.neutralBandValue / 100;
+        }
+        return sentimentColor.neutralBandValue;
+    }
+    // the value of the first pillar, found the same way as the data builders define their pillars
+    private getOpeningPillarValue(dataView: DataView): number {
+        var startValue = this.getRoleValue("startValue");
+        if (startValue != null && (dataView.matrix.rows.levels.length == 0 || this.measureCount == 1)) {
+            return startValue.value;
+        }
+        if (dataView.matrix.rows.levels.length == 0) {
+            for (let index = 0; index < this.measureCount; index++) {
+                if (this.getMeasureBarType(dataView.matrix.valueSources[index]) == "Pillar") {
+                    return +dataView.matrix.rows.root.children[0].values[index].value;
+                }
+            }
+        } else if (dataView.matrix.rows.levels.length == 1 && this.measureCount == 1) {
+            var pillarNodes = dataView.matrix.rows.root.children.filter(x => x.objects && x.objects.definePillars && x.objects.definePillars.pillars);
+            if (pillarNodes.length > 0) {
+                return +pillarNodes[0].values[0].value;
+            }
+        } else if (this.measureCount > 1) {
+            // the total of the first measure opens the drillable waterfall
+            var openingPillarValue = 0;
+            this.findLowestLevels()[0].forEach(node => {
+                openingPillarValue = openingPillarValue + (+node.value);
+            });
+            return openingPillarValue;
+        }
+        return null;
+    }
+    // the axis min and axis max roles are bounds, so the lowest or the highest value over the categories is used
+    private getAxisRoleValue(roleName: string, isMax: boolean): number {
+        let dataView: DataView = this.visualUpdateOptions.dataViews[0];
+        var valueSources = dataView.matrix.valueSources;
+        var roleIndex = -1;
+        for (let index = 0; index < valueSources.length; index++) {
+            if (valueSources[index].roles[roleName]) {
+                roleIndex = index;
+            }
+        }
+        if (roleIndex == -1) {
+            return null;
+        }
+        var values: number[] = [];
+        var addLeafValues = (node: DataViewMatrixNode) => {
+            if (node.children == undefined) {
+                if (node.values[roleIndex] != undefined && node.values[roleIndex].value != null) {
+                    values.push(+node.values[roleIndex].value);
+                }
+            } else {
+                node.children.forEach(addLeafValues);
+            }
+        };
+        dataView.matrix.rows.root.children.forEach(addLeafValues);
+        if (values.length == 0) {
+            return null;
+        }
+        return isMax ? Math.max(...values) : Math.min(...values);
+    }
+    // the start and end value roles are summed over the categories, the same way as the steps
+    private getRoleValue(roleName: string): { value: number; valueSource: DataViewMetadataColumn } {
+        let dataView: DataView = this.visualUpdateOptions.dataViews[0];
+        var valueSources = dataView.matrix.valueSources;
+        var roleIndex = -1;
+        for (let index = 0; index < valueSources.length; index++) {
+            if (valueSources[index].roles[roleName]) {
+                roleIndex = index;
+            }
+        }
+        if (roleIndex == -1) {
+            return null;
+        }
+        // the start and end values are read from the grand total, without a category the single row holds them
+        var root = dataView.matrix.rows.root;
+        var value = this.getNodeRoleValue(root, roleName);
+        if (value == undefined && dataView.matrix.rows.levels.length == 0 && root.children && root.children.length > 0) {
+            value = this.getNodeRoleValue(root.children[0], roleName);
+        }
+        // a blank value leaves the default pillar in place
+        if (value == undefined) {
+            return null;
+        }
+        return { value: value, valueSource: valueSources[roleIndex] };
+    }
+    private getStartEndData(startEndType: string, value: number, valueSource: DataViewMetadataColumn, sortOrderIndex: number) {
+        var isPillar = startEndType == "Unexplained" ? 0 : 1;
+        var displayName = startEndType == "Unexplained" ? this.visualSettings.definePillars.unexplainedText : valueSource.displayName;
+        var selectionId = this.host.createSelectionIdBuilder()
+            .withMeasure(valueSource.queryName)
+            .createSelectionId();
+        var data2 = this.getDataForCategory(value, valueSource.format, displayName, "default" + startEndType + "Value", isPillar, selectionId, sortOrderIndex, 1, displayName, null, value, null);
+        data2["startEndType"] = startEndType;
+        return data2;
+    }
+    // the value the bars add up to, each pillar restarts the count like in yBreakdown
+    private getRunningTotal(visualData): number {
+        var runningTotal = 0;
+        visualData.forEach(element => {
+            if (element["isPillar"] == 1) {
+                runningTotal = element["value"];
+            } else {
+                runningTotal = runningTotal + element["value"];
+            }
+        });
+        return runningTotal;
+    }
+    // closes the bridge with the end value, any gap to the bars before it is shown as an "Unexplained" step
+    private addEndValue(visualData, endValue: { value: number; valueSource: DataViewMetadataColumn }, sortOrderIndex: number) {
+        var unexplainedValue = endValue.value - this.getRunningTotal(visualData);
+        // ignore the rounding left over from adding up the steps
+        if (Math.abs(unexplainedValue) > Math.max(1, Math.abs(endValue.value)) * 1e-9) {
+            visualData.push(this.getStartEndData("Unexplained", unexplainedValue, endValue.valueSource, sortOrderIndex));
+        }
+        var endData = this.getStartEndData("End", endValue.value, endValue.valueSource, sortOrderIndex + 1);
+        endData["targetValue"] = this.getTotalTargetValue();
+        visualData.push(endData);
+    }
+    // the bar type set on the measure, older reports flag pillars with the "is Pillar" toggle or a leading "_" in the measure name
+    private getMeasureBarType(valueSource: DataViewMetadataColumn): string {
+        var definePillars = valueSource.objects ? valueSource.objects.definePillars : null;
+        if (definePillars && definePillars.barType) {
+            return <string>definePillars.barType;
+        }
+        if (definePillars && definePillars.pillars != undefined) {
+            return definePillars.pillars ? "Pillar" : "Step";
+        }
+        return valueSource.displayName.substring(0, 1) == "_" ? "Pillar" : "Step";
+    }
+    private getMeasureDisplayName(valueSource: DataViewMetadataColumn): string {
+        return valueSource.displayName.substring(0, 1) == "_" ? valueSource.displayName.substring(1) : valueSource.displayName;
+    }
+    private getInvertSentiment(objects: DataViewObjects): boolean {
+        return objects && objects.sentimentColor && objects.sentimentColor.invertSentiment ? true : false;
+    }
     private getDataStaticWaterfall(options: VisualUpdateOptions) {
         let dataView: DataView = options.dataViews[0];
 
         var visualData = [];
         var sortOrderIndex = 0;
-        for (let index = 0; index < dataView.matrix.columns.root.children.length; index++) {
+        var startValue = this.getRoleValue("startValue");
+        var endValue = this.getRoleValue("endValue");
+        if (startValue != null) {
+            visualData.push(this.getStartEndData("Start", startValue.value, startValue.valueSource, -1));
+        }
+        for (let index = 0; index < this.measureCount; index++) {
             dataView.matrix.rows.root.children.forEach((x: DataViewMatrixNode) => {
                 var checkforZero = false;
-                if (this.visualSettings.LabelsFormatting.HideZeroBlankValues && +x.values[index].value == 0) {
+                // a subtotal ignores the value of its measure, so it is never hidden
+                var measureBarType = this.getMeasureBarType(dataView.matrix.valueSources[index]);
+                if (this.visualSettings.LabelsFormatting.HideZeroBlankValues && +x.values[index].value == 0 && measureBarType != "Subtotal") {
                     checkforZero = true;
                 }
                 if (checkforZero == false) {
@@ -1184,68 +1844,51 @@ export class Visual implements IVisual {
                         .withMeasure(dataView.matrix.valueSources[index].queryName)
                         .createSelectionId();
                     var y = dataView.matrix.valueSources[index];
+                    data2["invertSentiment"] = this.getInvertSentiment(y.objects);
+                    data2["barType"] = this.getMeasureBarType(y);
+                    data2["isPillar"] = data2["barType"] == "Step" ? 0 : 1;
+                    data2["isSubtotal"] = data2["barType"] == "Subtotal";
+                    if (data2["isSubtotal"]) {
+                        // drawn as a pillar, so yBreakdown, getYPosition and getHeight start the next steps from it
+                        data2["value"] = this.getRunningTotal(visualData);
+                    }
+                    data2["category"] = y.displayName;
+                    data2["displayName"] = this.getMeasureDisplayName(y);
+                    var defaultBarColor = data2["isSubtotal"] ? this.visualSettings.sentimentColor.sentimentColorSubtotal : this.getfillColor(data2["isPillar"], data2["value"], data2["invertSentiment"]);
                     if (y.objects) {
-                        if (y.objects.definePillars) {
-                            data2["category"] = dataView.matrix.valueSources[index].displayName;
-                            data2["displayName"] = dataView.matrix.valueSources[index].displayName;
-                            if (y.objects["definePillars"]["pillars"]) {
-                                data2["isPillar"] = 1;
-                            } else {
-                                data2["isPillar"] = 0;
-                            }
-                        } else {
-
-                            if (dataView.matrix.valueSources[index].displayName.substring(0, 1) != "_") {
-                                data2["isPillar"] = 0;
-                                data2["category"] = dataView.matrix.valueSources[index].displayName;
-                                data2["displayName"] = dataView.matrix.valueSources[index].displayName;
-                            } else {
-                                data2["isPillar"] = 1;
-                                data2["category"] = dataView.matrix.valueSources[index].displayName;
-                                data2["displayName"] = dataView.matrix.valueSources[index].displayName;
-                            }
-                        }
-                        if (y.objects.sentimentColor && !this.visualSettings.chartOrientation.useSentimentFeatures) {
+                        // a fill set on the bar, or resolved by a conditional formatting (fx) rule in the sentiment mode
+                        if (y.objects.sentimentColor && y.objects.sentimentColor.fill) {
                             data2["customBarColor"] = y.objects["sentimentColor"]["fill"]["solid"]["color"];
                         } else {
-                            data2["customBarColor"] = this.getfillColor(data2["isPillar"], data2["value"]);
+                            data2["customBarColor"] = defaultBarColor;
                         }
-                        if (y.objects.LabelsFormatting && !this.visualSettings.chartOrientation.useSentimentFeatures && !this.visualSettings.LabelsFormatting.useDefaultFontColor) {
+                        if (y.objects.LabelsFormatting && !this.visualSettings.LabelsFormatting.useDefaultFontColor) {
                             if (y.objects.LabelsFormatting.fill) {
                                 data2["customFontColor"] = y.objects["LabelsFormatting"]["fill"]["solid"]["color"];
                             } else {
-                                data2["customFontColor"] = this.getLabelFontColor(data2["isPillar"], data2["value"]);
+                                data2["customFontColor"] = this.getLabelFontColor(data2["isPillar"], data2["value"], data2["invertSentiment"]);
                             }
                         } else {
-                            data2["customFontColor"] = this.getLabelFontColor(data2["isPillar"], data2["value"]);
+                            data2["customFontColor"] = this.getLabelFontColor(data2["isPillar"], data2["value"], data2["invertSentiment"]);
                         }
 
                         if (y.objects.LabelsFormatting && !this.visualSettings.chartOrientation.useSentimentFeatures && !this.visualSettings.LabelsFormatting.useDefaultLabelPositioning) {
                             if (y.objects.LabelsFormatting.labelPosition) {
                                 data2["customLabelPositioning"] = y.objects["LabelsFormatting"]["labelPosition"];
                             } else {
-                                data2["customLabelPositioning"] = this.getLabelPosition(data2["isPillar"], data2["value"]);
+                                data2["customLabelPositioning"] = this.getLabelPosition(data2["isPillar"], data2["value"], data2["invertSentiment"]);
                             }
                         } else {
-                            data2["customLabelPositioning"] = this.getLabelPosition(data2["isPillar"], data2["value"]);
+                            data2["customLabelPositioning"] = this.getLabelPosition(data2["isPillar"], data2["value"], data2["invertSentiment"]);
                         }
                     } else {
-
-                        if (dataView.matrix.valueSources[index].displayName.substring(0, 1) != "_") {
-                            data2["isPillar"] = 0;
-                            data2["category"] = dataView.matrix.valueSources[index].displayName;
-                            data2["displayName"] = dataView.matrix.valueSources[index].displayName;
-                        } else {
-                            data2["isPillar"] = 1;
-                            data2["category"] = dataView.matrix.valueSources[index].displayName;
-                            data2["displayName"] = dataView.matrix.valueSources[index].displayName;
-                        }
-                        data2["customBarColor"] = this.getfillColor(data2["isPillar"], data2["value"]);
-                        data2["customFontColor"] = this.getLabelFontColor(data2["isPillar"], data2["value"]);
-                        data2["customLabelPositioning"] = this.getLabelPosition(data2["isPillar"], data2["value"]);
+                        data2["customBarColor"] = defaultBarColor;
+                        data2["customFontColor"] = this.getLabelFontColor(data2["isPillar"], data2["value"], data2["invertSentiment"]);
+                        data2["customLabelPositioning"] = this.getLabelPosition(data2["isPillar"], data2["value"], data2["invertSentiment"]);
                     }
                     data2["toolTipValue1Formatted"] = this.formatValueforLabels(data2);
-                    data2["toolTipDisplayValue1"] = data2["category"];
+                    data2["toolTipDisplayValue1"] = data2["displayName"];
+                    data2["tooltipValues"] = this.getTooltipValues(x);
                     data2["childrenCount"] = 1;
                     if (data2["isPillar"] == 1) {
                         sortOrderIndex = sortOrderIndex + 1
@@ -1258,56 +1901,103 @@ export class Visual implements IVisual {
                 }
             });
         }
+        if (endValue != null) {
+            this.addEndValue(visualData, endValue, sortOrderIndex + 1);
+        } else if (visualData.length > 0 && visualData[visualData.length - 1]["isPillar"] == 1) {
+            // the target is the one of the grand total, so only the closing pillar is compared to it
+            visualData[visualData.length - 1]["targetValue"] = this.getTotalTargetValue();
+        }
         visualData = this.sortData(visualData);
         return visualData;
     }
     private sortData(visualData) {
+        if (+this.visualSettings.chartOrientation.sortData == 1 || this.isSortedByHost) {
+            return visualData;
+        }
+        // only the steps between two pillars are sorted, "Other" and its steps are kept after the other steps
         visualData.sort((a, b) => {
-            switch (this.visualSettings.chartOrientation.sortData) {
-                case 3:
-                    if (Math.floor(a.sortOrderIndex) === Math.floor(b.sortOrderIndex)) {
-                        return parseFloat(a.value.toString()) - parseFloat(b.value.toString());
-                    } else {
-                        return a.sortOrderIndex - b.sortOrderIndex;
-                    }
-                    break;
-                case 2:                    
-                    if (Math.floor(a.sortOrderIndex) === Math.floor(b.sortOrderIndex)) {
-                        return parseFloat(b.value.toString()) - parseFloat(a.value.toString());
-                    } else {
-                        return a.sortOrderIndex - b.sortOrderIndex;
-                    }
-                    break;
-                default:
-                    return 0;
-                    break;
+            if (a.isPillar != 1 && b.isPillar != 1 && Math.floor(a.sortOrderIndex) === Math.floor(b.sortOrderIndex) && this.isOtherStep(a) === this.isOtherStep(b)) {
+                var compareValues = this.compareStepValues(a, b);
+                if (compareValues != 0) {
+                    return compareValues;
+                }
             }
+            return a.sortOrderIndex - b.sortOrderIndex;
         });
         return visualData;
     }
+    // the steps are sorted inside their group, so the pillars and the parent groups of the hierarchy keep their place
     private sortDataDrillable(visualData) {
         visualData.sort((a, b) => {
-            switch (this.visualSettings.chartOrientation.sortData) {
-                case 3:
-                    //if (a.isPillar != 1) {
-                        if (Math.floor(a.sortOrderIndex) === Math.floor(b.sortOrderIndex)/* && a.isPillar != 1*/) {
-                        return parseFloat(a.value.toString()) - parseFloat(b.value.toString());
-                    } else {
-                        return a.sortOrderIndex - b.sortOrderIndex;
-                    }
-                case 2:
-                    //if (a.isPillar != 1) {
-                        if (Math.floor(a.sortOrderIndex) === Math.floor(b.sortOrderIndex) /* && a.isPillar != 1 */) {
-                        return parseFloat(b.value.toString()) - parseFloat(a.value.toString());
-                    } else {
-                        return a.sortOrderIndex - b.sortOrderIndex;
-                    }
-                default:
-                    return a.sortOrderIndex - b.sortOrderIndex;
+            if (a.isPillar != 1 && b.isPillar != 1 && this.getStepGroup(a) === this.getStepGroup(b)) {
+                var compareValues = this.compareStepValues(a, b);
+                if (compareValues != 0) {
+                    return compareValues;
+                }
             }
+            return a.sortOrderIndex - b.sortOrderIndex;
         });
         return visualData;
     }
+    // the steps of an expanded "Other" keep their own formatting but are still sorted apart from the ranked steps
+    private isOtherStep(d: any): boolean {
+        return d.isOther || d.isExpandedOther ? true : false;
+    }
+    // the steps between two pillars that share a parent, "Other" and its steps are kept after the other steps
+    private getStepGroup(d: any): string {
+        var category: string = d.category;
+        return Math.floor(d.sortOrderIndex) + category.substring(0, category.lastIndexOf("|") + 1) + (this.isOtherStep(d) ? "Other" : "");
+    }
+    // the steps are compared by the sort by measure when there is one
+    private compareStepValues(a: any, b: any): number {
+        // a sort picked in the "Sort by" menu of the visual arrives as the order of the data
+        if (this.isSortedByHost) {
+            return 0;
+        }
+        var aValue: number = a.sortByValue != undefined ? a.sortByValue : a.value;
+        var bValue: number = b.sortByValue != undefined ? b.sortByValue : b.value;
+        switch (+this.visualSettings.chartOrientation.sortData) {
+            case 3:
+                return aValue - bValue;
+            case 2:
+                return bValue - aValue;
+            case 4:
+                return Math.abs(bValue) - Math.abs(aValue);
+            default:
+                return 0;
+        }
+    }
+    private getSortByValue(node: DataViewMatrixNode): number {
+        let dataView: DataView = this.visualUpdateOptions.dataViews[0];
+        var sortByValue: number = undefined;
+        dataView.matrix.valueSources.forEach((source, index) => {
+            if (source.roles["sortBy"] && node.values && node.values[index] != undefined) {
+                sortByValue = +node.values[index].value;
+            }
+        });
+        return sortByValue;
+    }
+    private getRoleSource(roleName: string): DataViewMetadataColumn {
+        let dataView: DataView = this.visualUpdateOptions.dataViews[0];
+        var roleSource: DataViewMetadataColumn = null;
+        dataView.matrix.valueSources.forEach(source => {
+            if (source.roles[roleName]) {
+                roleSource = source;
+            }
+        });
+        return roleSource;
+    }
+    // blank values are left undefined, so no line point or target marker is drawn for them
+    private getNodeRoleValue(node: DataViewMatrixNode, roleName: string): number {
+        let dataView: DataView = this.visualUpdateOptions.dataViews[0];
+        var roleValue: number = undefined;
+        dataView.matrix.valueSources.forEach((source, index) => {
+            if (source.roles[roleName] && node.values && node.values[index] != undefined && node.values[index].value != null) {
+                roleValue = +node.values[index].value;
+            }
+        });
+        return roleValue;
+    }
 
     private getDataDrillableWaterfall(options: VisualUpdateOptions) {
         let dataView: DataView = options.dataViews[0];
@@ -1326,6 +2016,13 @@ export class Visual implements IVisual {
             var Measure1Value: number = null;
             var Measure2Value: number = null;            
             var dataPillar = [];
+            // the total movement between this measure and the next one, used for the contribution of each step
+            var totalMovement = 0;
+            if (indexMeasures < allMeasureValues.length - 1) {
+                for (let nodeItems = 0; nodeItems < allMeasureValues[indexMeasures].length; nodeItems++) {
+                    totalMovement = totalMovement + (+allMeasureValues[indexMeasures + 1][nodeItems].value) - (+allMeasureValues[indexMeasures][nodeItems].value);
+                }
+            }
             for (let nodeItems = 0; nodeItems < allMeasureValues[indexMeasures].length; nodeItems++) {
                 totalValueofMeasure = totalValueofMeasure + allMeasureValues[indexMeasures][nodeItems].value
                 if (indexMeasures < allMeasureValues.length - 1) {
@@ -1342,7 +2039,12 @@ export class Visual implements IVisual {
                         var displayName: string = allMeasureValues[indexMeasures][nodeItems].displayName;
                         var category: string = dataView.matrix.valueSources[indexMeasures].displayName + allMeasureValues[indexMeasures][nodeItems].category.toString();
                         var selectionId = allMeasureValues[indexMeasures][nodeItems].selectionId;
-                        data2Category = this.getDataForCategory(valueDifference, dataView.matrix.valueSources[indexMeasures].format, displayName, category, 0, selectionId, sortOrderIndex + ((nodeItems + 1) / sortOrderPrecision), 1, toolTipDisplayValue1, toolTipDisplayValue2, Measure1Value, Measure2Value);
+                        var tooltipValues = allMeasureValues[indexMeasures][nodeItems].tooltipValues;
+                        data2Category = this.getDataForCategory(valueDifference, dataView.matrix.valueSources[indexMeasures].format, displayName, category, 0, selectionId, sortOrderIndex + ((nodeItems + 1) / sortOrderPrecision), 1, toolTipDisplayValue1, toolTipDisplayValue2, Measure1Value, Measure2Value, tooltipValues, allMeasureValues[indexMeasures][nodeItems].objects, this.getInvertSentiment(dataView.matrix.valueSources[indexMeasures].objects));
+                        this.setVarianceTooltipValues(data2Category, totalMovement);
+                        data2Category["sortByValue"] = allMeasureValues[indexMeasures][nodeItems].sortByValue;
+                        data2Category["node"] = allMeasureValues[indexMeasures][nodeItems].node;
+                        data2Category["lineValue"] = allMeasureValues[indexMeasures][nodeItems].lineValue;
                         visualData.push(data2Category);
                     }
                     
@@ -1352,21 +2054,20 @@ export class Visual implements IVisual {
             toolTipDisplayValue2 = null;
             Measure1Value = totalValueofMeasure;
             Measure2Value = null;                        
-            dataPillar = this.getDataForCategory(totalValueofMeasure, dataView.matrix.valueSources[indexMeasures].format, dataView.matrix.valueSources[indexMeasures].displayName, dataView.matrix.valueSources[indexMeasures].displayName, 1, null, sortOrderIndex - 1, 1, toolTipDisplayValue1, toolTipDisplayValue2, Measure1Value, Measure2Value);                        
+            dataPillar = this.getDataForCategory(totalValueofMeasure, dataView.matrix.valueSources[indexMeasures].format, dataView.matrix.valueSources[indexMeasures].displayName, dataView.matrix.valueSources[indexMeasures].displayName, 1, null, sortOrderIndex - 1, 1, toolTipDisplayValue1, toolTipDisplayValue2, Measure1Value, Measure2Value, this.getTooltipValues(dataView.matrix.rows.root));                        
+            // the target is the one of the grand total, so only the pillar of the last measure is compared to it
+            if (indexMeasures == allMeasureValues.length - 1) {
+                dataPillar["targetValue"] = this.getTotalTargetValue();
+            }
             sortOrderIndex = sortOrderIndex + 2;
             visualData.push(dataPillar);
         }
-        if (this.visualSettings.chartOrientation.limitBreakdown) {
+        // the steps are limited per parent group in a hierarchy, which needs a single measure, so the format pane disables the option here and says why
+        if (this.visualSettings.chartOrientation.limitBreakdown && dataView.matrix.rows.levels.length == 1) {
             visualData = this.limitBreakdownsteps(options, visualData);
         }
         // Sort the [visualData] in order of the display
-        if (dataView.matrix.rows.levels.length === 1) {
-            this.sortDataDrillable(visualData);
-        } else {
-            visualData.sort((a, b) => {
-                return a.sortOrderIndex - b.sortOrderIndex;
-            });
-        }
+        this.sortDataDrillable(visualData);
         // add arrays to the main array for additional x-axis for each category
         for (let levelItems = 0; levelItems < dataView.matrix.rows.levels.length - 1; levelItems++) {
             var categorynode = []
@@ -1390,7 +2091,7 @@ export class Visual implements IVisual {
                         newDisplayName = "";
                     }
                 }
-                childnode = this.getDataForCategory(currNode["value"], currNode["numberFormat"], newDisplayName, currCategoryText, currNode["isPillar"], null, currNode["sortOrderIndex"], childrenCount, currNode["toolTipDisplayValue1"], currNode["toolTipDisplayValue2"], currNode["Measure1Value"], currNode["Measure2Value"]);
+                childnode = this.getDataForCategory(currNode["value"], currNode["numberFormat"], newDisplayName, currCategoryText, currNode["isPillar"], null, currNode["sortOrderIndex"], childrenCount, currNode["toolTipDisplayValue1"], currNode["toolTipDisplayValue2"], currNode["Measure1Value"], currNode["Measure2Value"], currNode["tooltipValues"]);
                 if (displayNode != undefined) {
                     if (displayNode.displayName == currCategoryArray[levelItems + 1]) {
                         displayNode.childrenCount = displayNode.childrenCount + 1;
@@ -1421,6 +2122,11 @@ export class Visual implements IVisual {
         //*******************************************************************
         var sortOrderIndex = 0;
         var orderIndex = 0;
+        var startValue = this.getRoleValue("startValue");
+        var endValue = this.getRoleValue("endValue");
+        if (startValue != null) {
+            visualData.push(this.getStartEndData("Start", startValue.value, startValue.valueSource, -1));
+        }
         dataView.matrix.rows.root.children.forEach((x: DataViewMatrixNode) => {
             var checkforZero = false;
             if (this.visualSettings.LabelsFormatting.HideZeroBlankValues && +x.values[measureIndex].value == 0) {
@@ -1439,6 +2145,7 @@ export class Visual implements IVisual {
                 data2["type"] = dataView.matrix.rows.levels[0].sources[0].type;
                 data2["category"] = this.formatCategory(x.value, data2["type"], data2["xAxisFormat"]);
                 data2["displayName"] = this.formatCategory(x.value, data2["type"], data2["xAxisFormat"]);
+                data2["invertSentiment"] = this.getInvertSentiment(x.objects);
                 if (x.objects) {
                     if (x.objects.definePillars) {
                         if (x.objects["definePillars"]["pillars"]) {
@@ -1452,39 +2159,45 @@ export class Visual implements IVisual {
                         data2["displayName"] = x.value; */
                         data2["isPillar"] = 0;
                     }
-                    if (x.objects.sentimentColor && !this.visualSettings.chartOrientation.useSentimentFeatures) {
+                    // a fill set on the bar, or resolved by a conditional formatting (fx) rule in the sentiment mode
+                    if (x.objects.sentimentColor && x.objects.sentimentColor.fill) {
                         data2["customBarColor"] = x.objects["sentimentColor"]["fill"]["solid"]["color"];
                     } else {
-                        data2["customBarColor"] = this.getfillColor(data2["isPillar"], data2["value"]);
+                        data2["customBarColor"] = this.getfillColor(data2["isPillar"], data2["value"], data2["invertSentiment"]);
                     }
                     if (x.objects.LabelsFormatting && !this.visualSettings.LabelsFormatting.useDefaultFontColor) {
                         if (x.objects.LabelsFormatting.fill) {
                             data2["customFontColor"] = x.objects["LabelsFormatting"]["fill"]["solid"]["color"];
                         } else {
-                            data2["customFontColor"] = this.getLabelFontColor(data2["isPillar"], data2["value"]);
+                            data2["customFontColor"] = this.getLabelFontColor(data2["isPillar"], data2["value"], data2["invertSentiment"]);
                         }
 
                     } else {
-                        data2["customFontColor"] = this.getLabelFontColor(data2["isPillar"], data2["value"]);
+                        data2["customFontColor"] = this.getLabelFontColor(data2["isPillar"], data2["value"], data2["invertSentiment"]);
                     }
 
                     if (x.objects.LabelsFormatting && !this.visualSettings.chartOrientation.useSentimentFeatures && !this.visualSettings.LabelsFormatting.useDefaultLabelPositioning) {
                         if (x.objects.LabelsFormatting.labelPosition) {
                             data2["customLabelPositioning"] = x.objects["LabelsFormatting"]["labelPosition"];
                         } else {
-                            data2["customLabelPositioning"] = this.getLabelPosition(data2["isPillar"], data2["value"]);
+                            data2["customLabelPositioning"] = this.getLabelPosition(data2["isPillar"], data2["value"], data2["invertSentiment"]);
                         }
                     } else {
-                        data2["customLabelPositioning"] = this.getLabelPosition(data2["isPillar"], data2["value"]);
+                        data2["customLabelPositioning"] = this.getLabelPosition(data2["isPillar"], data2["value"], data2["invertSentiment"]);
                     }
                 } else {
                     data2["isPillar"] = 0;
-                    data2["customBarColor"] = this.getfillColor(data2["isPillar"], data2["value"]);
-                    data2["customFontColor"] = this.getLabelFontColor(data2["isPillar"], data2["value"]);
-                    data2["customLabelPositioning"] = this.getLabelPosition(data2["isPillar"], data2["value"]);
+                    data2["customBarColor"] = this.getfillColor(data2["isPillar"], data2["value"], data2["invertSentiment"]);
+                    data2["customFontColor"] = this.getLabelFontColor(data2["isPillar"], data2["value"], data2["invertSentiment"]);
+                    data2["customLabelPositioning"] = this.getLabelPosition(data2["isPillar"], data2["value"], data2["invertSentiment"]);
                 }
                 data2["toolTipValue1Formatted"] = this.formatValueforLabels(data2);
                 data2["toolTipDisplayValue1"] = data2["category"];
+                data2["tooltipValues"] = this.getTooltipValues(x);
+                data2["node"] = x;
+                data2["sortByValue"] = this.getSortByValue(x);
+                data2["lineValue"] = this.getNodeRoleValue(x, "lineValue");
+                data2["targetValue"] = this.getNodeRoleValue(x, "target");
                 data2["childrenCount"] = 1;
                 if (data2["isPillar"] == 1) {
                     sortOrderIndex = Math.round(sortOrderIndex) + 1
@@ -1501,7 +2214,9 @@ export class Visual implements IVisual {
                 visualData.push(data2);
             }
         });
-        if (!hasPillar && this.visualSettings.definePillars.Totalpillar) {
+        if (endValue != null) {
+            this.addEndValue(visualData, endValue, Math.round(sortOrderIndex) + 1);
+        } else if (!hasPillar && this.visualSettings.definePillars.Totalpillar) {
             visualData.push(this.addTotalLine(visualData, options));
         }
         if (this.visualSettings.chartOrientation.limitBreakdown) {
@@ -1511,58 +2226,46 @@ export class Visual implements IVisual {
         return visualData;
     }
     private limitBreakdownsteps(options: VisualUpdateOptions, currData) {
-        //var currData = []
-        //currData = this.getDataStaticCategoryWaterfall(options);
-        currData.sort((a, b) => {
-            if (Math.round(a.sortOrderIndexforLimitBreakdown) === Math.round(b.sortOrderIndexforLimitBreakdown) && a.isPillar !=1) {
-                return parseFloat(Math.abs(b.value).toString()) - parseFloat(Math.abs(a.value).toString());
+        // the steps between two pillars share the rounded sort order and are ranked as one group
+        var groups: { [groupIndex: number]: any[] } = {};
+        currData.forEach(element => {
+            if (element.isPillar == 1 || element.startEndType == "Unexplained") {
+                element["showbreakdownstep"] = true;
             } else {
-                return Math.round(a.sortOrderIndexforLimitBreakdown) - Math.round(b.sortOrderIndexforLimitBreakdown);
+                var groupIndex = Math.round(element.sortOrderIndexforLimitBreakdown);
+                if (groups[groupIndex] == undefined) {
+                    groups[groupIndex] = [];
+                }
+                groups[groupIndex].push(element);
             }
         });
-        var limit = this.visualSettings.chartOrientation.maxBreakdown;
-        var limitcounter = 0;
         var otherbreakdownstepCount = 0;
-        var newOther = [];
-        var otherTotalValue = 0;
-        var othersortOrderIndex = 0;
-        for (let index = 0; index < currData.length; index++) {
-            /*currData[index]["showbreakdownstep"] = false;
-            otherTotalValue = otherTotalValue + currData[index].value
-            othersortOrderIndex*/
-            if (currData[index].isPillar == 1) {
-                currData[index]["showbreakdownstep"] = true;
-                limitcounter = 0;
-                if (otherTotalValue != 0) {
-                    newOther.push(this.addOtherBreakdownStep(options, otherTotalValue,othersortOrderIndex, othersortOrderIndex, otherbreakdownstepCount));
-                    otherbreakdownstepCount++;
+        Object.keys(groups).forEach(groupIndex => {
+            var shownSteps = this.rankBreakdownSteps(groups[groupIndex]);
+            var otherTotalValue = 0;
+            var otherSteps = [];
+            groups[groupIndex].forEach(element => {
+                if (shownSteps.indexOf(element) != -1) {
+                    element["showbreakdownstep"] = true;
+                } else if (this.visualSettings.chartOrientation.expandOther) {
+                    // the steps of "Other" follow the ranked steps of the group in their original order
+                    element["showbreakdownstep"] = true;
+                    element["sortOrderIndex"] = +groupIndex + 0.5 + (element.sortOrderIndexforLimitBreakdown - +groupIndex);
+                    element["sortOrderIndexforLimitBreakdown"] = element["sortOrderIndex"];
+                    element["isExpandedOther"] = true;
+                } else {
+                    element["showbreakdownstep"] = false;
+                    otherTotalValue = otherTotalValue + element.value;
+                    otherSteps.push(element);
                 }
-                otherTotalValue = 0
-                othersortOrderIndex = 0;
-
-            } else if (limitcounter < limit) {
-                limitcounter++;
-                currData[index]["showbreakdownstep"] = true;
-            }
-            else if (
-                (index != currData.length - 1 && currData[index].sortOrderIndex == currData[index + 1].sortOrderIndex && limitcounter < limit)
-                || (index != 0 && currData[index].sortOrderIndex == currData[index - 1].sortOrderIndex && limitcounter < limit)
-            ) {
-                limitcounter++;
-                currData[index]["showbreakdownstep"] = true;
-            } else {
-                currData[index]["showbreakdownstep"] = false;
-                otherTotalValue = otherTotalValue + currData[index].value;
-                othersortOrderIndex = Math.round(currData[index].sortOrderIndex);
+            });
+            if (otherSteps.length > 0) {
+                currData.push(this.addOtherBreakdownStep(options, otherTotalValue, +groupIndex, +groupIndex, otherbreakdownstepCount, otherSteps));
+                otherbreakdownstepCount++;
             }
-        }
-
-        newOther.forEach(node => {
-            currData.push(node);
         });
 
         for (let index = 0; index < currData.length; index++) {
-            const element = currData[index];
             if (currData[index].showbreakdownstep == false) {
                 currData.splice(index, 1);
                 index--;
@@ -1570,20 +2273,102 @@ export class Visual implements IVisual {
 
         }
         currData.sort((a, b) => {
-            if (a.sortOrderIndexforLimitBreakdown === b.sortOrderIndexforLimitBreakdown) {
-                //return parseFloat(Math.abs(b.value).toString()) - parseFloat(Math.abs(a.value).toString());
-                //return a.orderIndex - b.orderIndex;
-                return a.sortOrderIndexforLimitBreakdown - b.sortOrderIndexforLimitBreakdown;
-            } else {
-                return a.sortOrderIndexforLimitBreakdown - b.sortOrderIndexforLimitBreakdown;
-            }
+            return a.sortOrderIndexforLimitBreakdown - b.sortOrderIndexforLimitBreakdown;
         });
 
-        
-
         return currData;
     }
-    private addOtherBreakdownStep(options: VisualUpdateOptions, value, sortOrderIndex,sortOrderIndexforLimitBreakdown, otherbreakdownstepCount) {
+    // the steps of a group that stay on the chart, the others are folded into "Other"
+    private rankBreakdownSteps(steps: any[]): any[] {
+        var limit = this.visualSettings.chartOrientation.maxBreakdown;
+        // zero steps are ranked with the positive ones, so they are not always folded into "Other"
+        var positiveSteps = steps.filter(x => +x.value >= 0).sort((a, b) => b.value - a.value);
+        var negativeSteps = steps.filter(x => +x.value < 0).sort((a, b) => a.value - b.value);
+        switch (this.visualSettings.chartOrientation.limitBreakdownRule) {
+            case "Positive":
+                return steps.slice().sort((a, b) => b.value - a.value).slice(0, limit);
+            case "Negative":
+                return steps.slice().sort((a, b) => a.value - b.value).slice(0, limit);
+            case "PositiveNegative":
+                return positiveSteps.slice(0, limit).concat(negativeSteps.slice(0, limit));
+            default:
+                return steps.slice().sort((a, b) => Math.abs(b.value) - Math.abs(a.value)).slice(0, limit);
+        }
+    }
+    // folds the leaves of each parent group that the ranking rule does not keep into an "Other" leaf at the end of the group
+    private limitLeafNodes(nodes: any[]): any[] {
+        var limitedNodes = [];
+        var groupNodes = [];
+        var getParentNode = (node): DataViewMatrixNode => node.parentNodes[node.parentNodes.length - 1];
+        var limitGroup = () => {
+            var shownNodes = this.rankBreakdownSteps(groupNodes);
+            var otherNodes = groupNodes.filter(node => shownNodes.indexOf(node) == -1);
+            groupNodes.forEach(node => {
+                if (shownNodes.indexOf(node) != -1) {
+                    limitedNodes.push(node);
+                }
+            });
+            if (this.visualSettings.chartOrientation.expandOther) {
+                // the leaves of "Other" follow the ranked leaves of the group
+                otherNodes.forEach(node => {
+                    node["isExpandedOther"] = true;
+                    limitedNodes.push(node);
+                });
+                this.limitedLeafCounts.set(getParentNode(groupNodes[0]), groupNodes.length);
+            } else {
+                if (otherNodes.length > 0) {
+                    limitedNodes.push(this.getOtherLeafNode(otherNodes));
+                }
+                this.limitedLeafCounts.set(getParentNode(groupNodes[0]), shownNodes.length + (otherNodes.length > 0 ? 1 : 0));
+            }
+            groupNodes = [];
+        };
+        nodes.forEach(node => {
+            if (groupNodes.length > 0 && getParentNode(node) != getParentNode(groupNodes[0])) {
+                limitGroup();
+            }
+            groupNodes.push(node);
+        });
+        if (groupNodes.length > 0) {
+            limitGroup();
+        }
+        return limitedNodes;
+    }
+    private getOtherLeafNode(otherNodes: any[]) {
+        var node = [];
+        var otherTotalValue = 0;
+        otherNodes.forEach(otherNode => {
+            otherTotalValue = otherTotalValue + (+otherNode.value);
+        });
+        var category: string = otherNodes[0].category;
+        node["value"] = otherTotalValue;
+        node["category"] = category.substring(0, category.lastIndexOf("|") + 1) + "defaultBreakdownStepOther";
+        node["displayName"] = this.visualSettings.chartOrientation.otherLabel;
+        node["selectionId"] = null;
+        node["tooltipValues"] = this.getOtherTooltipValues(otherNodes);
+        node["objects"] = null;
+        node["parentNodes"] = otherNodes[0].parentNodes;
+        node["parentCategory"] = category.substring(0, category.lastIndexOf("|") + 1);
+        node["isOther"] = true;
+        node["otherSteps"] = otherNodes;
+        return node;
+    }
+    // the "Other" bars have their own colour, font colour and label position
+    private setOtherBarFormatting(data2: any) {
+        data2["isOther"] = true;
+        data2["customBarColor"] = this.visualSettings.sentimentColor.sentimentColorOther;
+        if (this.visualSettings.LabelsFormatting.useDefaultFontColor) {
+            data2["customFontColor"] = this.visualSettings.LabelsFormatting.fontColor
+        } else {
+            data2["customFontColor"] = this.visualSettings.LabelsFormatting.sentimentFontColorOther;
+        }
+        if (this.visualSettings.LabelsFormatting.useDefaultLabelPositioning) {
+            data2["customLabelPositioning"] = this.visualSettings.LabelsFormatting.labelPosition
+        } else {
+            data2["customLabelPositioning"] = this.visualSettings.LabelsFormatting.labelPositionOther;
+        }
+    }
+    private addOtherBreakdownStep(options: VisualUpdateOptions, value, sortOrderIndex,sortOrderIndexforLimitBreakdown, otherbreakdownstepCount, otherSteps) {
         //*******************Add "Other" breakdown item *********************
         let dataView: DataView = options.dataViews[0];
         //*******************************************************************
@@ -1599,21 +2384,13 @@ export class Visual implements IVisual {
         data2["xAxisFormat"] = dataView.matrix.rows.levels[0].sources[0].format;
         data2["type"] = dataView.matrix.rows.levels[0].sources[0].type;
         data2["category"] = "defaultBreakdownStepOther" + sortOrderIndex;
-        data2["displayName"] = "Other";
-        data2["customBarColor"] = this.visualSettings.sentimentColor.sentimentColorOther;
-        if (this.visualSettings.LabelsFormatting.useDefaultFontColor) {
-            data2["customFontColor"] = this.visualSettings.LabelsFormatting.fontColor
-        } else {
-            data2["customFontColor"] = this.visualSettings.LabelsFormatting.sentimentFontColorOther;
-        }
-        if (this.visualSettings.LabelsFormatting.useDefaultLabelPositioning) {
-            data2["customLabelPositioning"] = this.visualSettings.LabelsFormatting.labelPosition
-        } else {
-            data2["customLabelPositioning"] = this.visualSettings.LabelsFormatting.labelPositionOther;
-        }
+        data2["displayName"] = this.visualSettings.chartOrientation.otherLabel;
+        this.setOtherBarFormatting(data2);
         data2["isPillar"] = 0;
         data2["toolTipValue1Formatted"] = this.formatValueforLabels(data2);
-        data2["toolTipDisplayValue1"] = data2["category"];
+        data2["toolTipDisplayValue1"] = data2["displayName"];
+        data2["tooltipValues"] = this.getOtherTooltipValues(otherSteps);
+        data2["otherSteps"] = otherSteps;
         data2["childrenCount"] = 1;
         data2["sortOrderIndex"] = sortOrderIndex + 0.999999;
         data2["sortOrderIndexforLimitBreakdown"] = sortOrderIndexforLimitBreakdown + 0.999999;        
@@ -1637,6 +2414,17 @@ export class Visual implements IVisual {
         var totalValueofMeasure = 0;
         var toolTipDisplayValue1 = "";
         var Measure1Value: number = null;
+        var subtotalNodes = this.showSubtotals() ? this.getSubtotalNodes() : [];
+        this.limitedLeafCounts = new Map<DataViewMatrixNode, number>();
+        if (this.visualSettings.chartOrientation.limitBreakdown) {
+            allMeasureValues[indexMeasures] = this.limitLeafNodes(allMeasureValues[indexMeasures]);
+        }
+        var startValue = this.getRoleValue("startValue");
+        var endValue = this.getRoleValue("endValue");
+        if (startValue != null) {
+            totalValueofMeasure = startValue.value;
+            visualData.push(this.getStartEndData("Start", startValue.value, startValue.valueSource, 1));
+        }
         for (let nodeItems = 0; nodeItems < allMeasureValues[indexMeasures].length; nodeItems++) {
             totalValueofMeasure = totalValueofMeasure + allMeasureValues[indexMeasures][nodeItems].value
 
@@ -1653,14 +2441,40 @@ export class Visual implements IVisual {
                 var displayName: string = allMeasureValues[indexMeasures][nodeItems].displayName;
                 var category: string = dataView.matrix.valueSources[indexMeasures].displayName + allMeasureValues[indexMeasures][nodeItems].category.toString();
                 var selectionId = allMeasureValues[indexMeasures][nodeItems].selectionId;
-                data2Category = this.getDataForCategory(valueDifference, dataView.matrix.valueSources[indexMeasures].format, displayName, category, 0, selectionId, 1, 1, toolTipDisplayValue1, null, Measure1Value, null);
+                var tooltipValues = allMeasureValues[indexMeasures][nodeItems].tooltipValues;
+                data2Category = this.getDataForCategory(valueDifference, dataView.matrix.valueSources[indexMeasures].format, displayName, category, 0, selectionId, 1, 1, toolTipDisplayValue1, null, Measure1Value, null, tooltipValues, allMeasureValues[indexMeasures][nodeItems].objects, this.getInvertSentiment(allMeasureValues[indexMeasures][nodeItems].objects) || this.getInvertSentiment(dataView.matrix.valueSources[indexMeasures].objects));
+                if (allMeasureValues[indexMeasures][nodeItems].isOther) {
+                    this.setOtherBarFormatting(data2Category);
+                }
+                data2Category["isExpandedOther"] = allMeasureValues[indexMeasures][nodeItems].isExpandedOther;
+                data2Category["sortByValue"] = allMeasureValues[indexMeasures][nodeItems].sortByValue;
+                data2Category["lineValue"] = allMeasureValues[indexMeasures][nodeItems].lineValue;
+                if (allMeasureValues[indexMeasures][nodeItems].otherSteps) {
+                    data2Category["otherSteps"] = allMeasureValues[indexMeasures][nodeItems].otherSteps;
+                    data2Category["toolTipDisplayValue1"] = dataView.matrix.valueSources[indexMeasures].displayName + allMeasureValues[indexMeasures][nodeItems].parentCategory + displayName;
+                }
                 visualData.push(data2Category);
             }
+            // the running total follows the last leaf of each group
+            var parentNodes = allMeasureValues[indexMeasures][nodeItems].parentNodes;
+            var nextParentNodes = nodeItems < allMeasureValues[indexMeasures].length - 1 ? allMeasureValues[indexMeasures][nodeItems + 1].parentNodes : [];
+            subtotalNodes.forEach(subtotalNode => {
+                if (parentNodes.indexOf(subtotalNode["node"]) != -1 && nextParentNodes.indexOf(subtotalNode["node"]) == -1) {
+                    visualData.push(this.getSubtotalData(subtotalNode, totalValueofMeasure));
+                }
+            });
 
         }
-        if (this.visualSettings.definePillars.Totalpillar) {
+        if (endValue != null) {
+            this.addEndValue(visualData, endValue, 1);
+        } else if (this.visualSettings.definePillars.Totalpillar) {
             visualData.push(this.addTotalLine(visualData, options));
         }
+        // the bars are added in the order of the hierarchy, which sortDataDrillable keeps outside the groups
+        visualData.forEach((element, index) => {
+            element["sortOrderIndex"] = 1 + index / visualData.length;
+        });
+        this.sortDataDrillable(visualData);
 
         // add arrays to the main array for additional x-axis for each category
         for (let levelItems = 0; levelItems < dataView.matrix.rows.levels.length - 1; levelItems++) {
@@ -1686,7 +2500,7 @@ export class Visual implements IVisual {
                     }
                 }
 
-                childnode = this.getDataForCategory(currNode["value"], currNode["numberFormat"], newDisplayName, currCategoryText, currNode["isPillar"], null, currNode["sortOrderIndex"], childrenCount, currNode["toolTipDisplayValue1"], currNode["toolTipDisplayValue2"], currNode["Measure1Value"], currNode["Measure2Value"]);
+                childnode = this.getDataForCategory(currNode["value"], currNode["numberFormat"], newDisplayName, currCategoryText, currNode["isPillar"], null, currNode["sortOrderIndex"], childrenCount, currNode["toolTipDisplayValue1"], currNode["toolTipDisplayValue2"], currNode["Measure1Value"], currNode["Measure2Value"], currNode["tooltipValues"]);
                 if (displayNode != undefined) {
                     if (displayNode.displayName == currCategoryArray[levelItems + 1]) {
                         displayNode.childrenCount = displayNode.childrenCount + 1;
@@ -1709,13 +2523,12 @@ export class Visual implements IVisual {
     }
     private findLowestLevels() {
 
-        function getChildLevel(currentNode, parentText: string, indexMeasures, rootnode: boolean) {
+        // parentNodes holds only the ancestors of the current node, so that the selection id of a leaf
+        // identifies its full path and can filter a report page tooltip
+        function getChildLevel(currentNode, parentText: string, indexMeasures, parentNodes: DataViewMatrixNode[]) {
 
             if (currentNode.children.length != undefined) {
                 currentNode.children.forEach(child => {
-                    if (rootnode) {
-                        parentNodes.length = 0;
-                    }
                     var format = dataView.matrix.rows.levels[child.level].sources[0].format;
                     var type = dataView.matrix.rows.levels[child.level].sources[0].type;
                     if (child.children != undefined) {
@@ -1726,8 +2539,7 @@ export class Visual implements IVisual {
                         } else {
                             
                         } */
-                        parentNodes.push(child);
-                        getChildLevel(child, parentText + "|" + getFormatCategory.formatCategory(child.value, type, format), indexMeasures, false);
+                        getChildLevel(child, parentText + "|" + getFormatCategory.formatCategory(child.value, type, format), indexMeasures, parentNodes.concat(child));
                     } else {
 
                         /* data2["xAxisFormat"] = dataView.matrix.rows.levels[0].sources[0].format;
@@ -1743,17 +2555,18 @@ export class Visual implements IVisual {
                             //node["displayName"] = this.formatCategory(child.value, node["type"], node["xAxisFormat"]);
                         }
 
-                        var selectionbuilder = host1.createSelectionIdBuilder();
-                        var selectionnode;
-                        if (parentNodes.length > 0) {
-                            parentNodes.forEach(nodes => {
-                                selectionnode = selectionbuilder.withMatrixNode(nodes, rows.levels)
-                            });
-                        } else {
-                            selectionnode = host1.createSelectionIdBuilder();
-                        }
+                        var selectionnode = host1.createSelectionIdBuilder();
+                        parentNodes.forEach(parentNode => {
+                            selectionnode = selectionnode.withMatrixNode(parentNode, rows.levels);
+                        });
                         var selectionId: ISelectionId = selectionnode.withMatrixNode(child, rows.levels).createSelectionId();
                         node["selectionId"] = selectionId;
+                        node["tooltipValues"] = getFormatCategory.getTooltipValues(child);
+                        node["node"] = child;
+                        node["objects"] = child.objects;
+                        node["parentNodes"] = parentNodes;
+                        node["sortByValue"] = getFormatCategory.getSortByValue(child);
+                        node["lineValue"] = getFormatCategory.getNodeRoleValue(child, "lineValue");
                         nodes.push(node);
 
                     };
@@ -1767,29 +2580,76 @@ export class Visual implements IVisual {
         var childrenCount = 0;
         var host1 = this.host;
         var getFormatCategory = this;
-        var parentNodes = [];
-        for (let indexMeasures = 0; indexMeasures < dataView.matrix.valueSources.length; indexMeasures++) {
+        for (let indexMeasures = 0; indexMeasures < getFormatCategory.measureCount; indexMeasures++) {
             var nodes = [];
-            getChildLevel(root, "", indexMeasures, true);
+            getChildLevel(root, "", indexMeasures, []);
             allNodes.push(nodes);
         }
         return allNodes;
 
     }
+    private showSubtotals(): boolean {
+        return this.visualType == "drillableCategory" && this.visualSettings.definePillars.subtotalPillars;
+    }
+    // every parent group of the hierarchy, in the order their subtotals are shown
+    private getSubtotalNodes() {
+        var dataView = this.visualUpdateOptions.dataViews[0];
+        var rows = dataView.matrix.rows;
+        var subtotalNodes = [];
+        var getChildLevel = (currentNode: DataViewMatrixNode, parentText: string, parentNodes: DataViewMatrixNode[]) => {
+            currentNode.children.forEach(child => {
+                if (child.children != undefined) {
+                    var format = rows.levels[child.level].sources[0].format;
+                    var type = rows.levels[child.level].sources[0].type;
+                    var childText = parentText + "|" + this.formatCategory(child.value, type, format);
+                    getChildLevel(child, childText, parentNodes.concat(child));
+
+                    var subtotalNode = [];
+                    subtotalNode["node"] = child;
+                    subtotalNode["category"] = childText.replace("null", "(blank)");
+                    subtotalNode["displayName"] = child.value == null ? "(blank)" : this.formatCategory(child.value, type, format);
+                    var selectionnode = this.host.createSelectionIdBuilder();
+                    parentNodes.concat(child).forEach(parentNode => {
+                        selectionnode = selectionnode.withMatrixNode(parentNode, rows.levels);
+                    });
+                    subtotalNode["selectionId"] = selectionnode.createSelectionId();
+                    subtotalNode["tooltipValues"] = this.getTooltipValues(child);
+                    subtotalNodes.push(subtotalNode);
+                }
+            });
+        };
+        getChildLevel(rows.root, "", []);
+        return subtotalNodes;
+    }
+    private getSubtotalData(subtotalNode: any, value: number) {
+        let dataView: DataView = this.visualUpdateOptions.dataViews[0];
+        var valueSource = dataView.matrix.valueSources[0];
+        var data2 = this.getDataForCategory(value, valueSource.format, subtotalNode["displayName"], valueSource.displayName + subtotalNode["category"] + "|defaultSubtotal", 1, subtotalNode["selectionId"], 1, 1, subtotalNode["displayName"], null, value, null, subtotalNode["tooltipValues"]);
+        data2["isSubtotal"] = true;
+        data2["customBarColor"] = this.visualSettings.sentimentColor.sentimentColorSubtotal;
+        // the subtotal is compared to the target of its parent category
+        data2["targetValue"] = this.getNodeRoleValue(subtotalNode["node"], "target");
+        return data2;
+    }
     private getAllMatrixLevelsNew(root, num) {
 
-        function getChildLevel(currentNode, parentText: string) {
+        function getChildLevel(currentNode, parentText: string, closingSubtotals: number) {
             if (currentNode.children.length != undefined) {
 
-                currentNode.children.forEach(child => {
+                currentNode.children.forEach((child, childIndex) => {
+                    // the subtotals of the groups that end with this child follow it on the axis
+                    var childClosingSubtotals = 0;
+                    if (showSubtotals && childIndex == currentNode.children.length - 1 && currentNode != root) {
+                        childClosingSubtotals = closingSubtotals + 1;
+                    }
                     if (index == num) {
-                        mainNode.push(createNode(child));
+                        mainNode.push(createNode(child, childClosingSubtotals));
                     } else {
 
                         index = index + 1;
                         if (child.children != undefined) {
 
-                            getChildLevel(child, parentText + "|" + child.value);
+                            getChildLevel(child, parentText + "|" + child.value, childClosingSubtotals);
                         };
                         index = index - 1;
                     }
@@ -1799,10 +2659,10 @@ export class Visual implements IVisual {
             }
 
         };
-        function createNode(child) {
+        function createNode(child, closingSubtotals: number) {
             var node = [];
             if (child.children == undefined) {
-                for (let indexMeasures = 0; indexMeasures < dataView.matrix.valueSources.length; indexMeasures++) {
+                for (let indexMeasures = 0; indexMeasures < getFormatCategory.measureCount; indexMeasures++) {
                     var nodeValue = [];
                     nodeValue = child.values[indexMeasures].value;
                     node.push(nodeValue);
@@ -1810,7 +2670,7 @@ export class Visual implements IVisual {
             } else {
                 counter = 0;
                 countChildrens(child);
-                node["childrenCount"] = counter;
+                node["childrenCount"] = counter + closingSubtotals;
 
             }
             var format = dataView.matrix.rows.levels[num].sources[0].format;
@@ -1832,7 +2692,14 @@ export class Visual implements IVisual {
         function countChildrens(child) {
             if (child.children == undefined) {
                 counter = counter + 1;
+            } else if (limitedLeafCounts.has(child)) {
+                // the leaves of the group are limited to the ranked steps and "Other"
+                counter = counter + limitedLeafCounts.get(child) + (showSubtotals ? 1 : 0);
             } else {
+                // the subtotal of the group
+                if (showSubtotals) {
+                    counter = counter + 1;
+                }
                 child.children.forEach(element => {
                     countChildrens(element)
                 });
@@ -1849,7 +2716,9 @@ export class Visual implements IVisual {
         var mainNode = [];
         var dataView = this.visualUpdateOptions.dataViews[0];
         var rows = dataView.matrix.rows;
-        getChildLevel(root, "");
+        var showSubtotals = this.showSubtotals();
+        var limitedLeafCounts = this.limitedLeafCounts;
+        getChildLevel(root, "", 0);
         allNodes.push(nodes);
         return mainNode;
 
@@ -1867,7 +2736,7 @@ export class Visual implements IVisual {
             .range([0, this.innerWidth])
             .padding(0.2);
 
-        if (dataView.matrix.valueSources.length > 1) {
+        if (this.measureCount > 1) {
             var pillarsCount = 3;
             var fullWidth = this.innerWidth - xBaseScale.bandwidth() + (xBaseScale.step() * xBaseScale.padding() * pillarsCount);
             var myBandwidth = fullWidth / allDatatemp[allDatatemp.length - 1].length;
@@ -1888,8 +2757,9 @@ export class Visual implements IVisual {
 
                 currData = this.getAllMatrixLevelsNew(root, allDataIndex);
                 var xAxisrange = [];
-                var currChildCount = 0
-                xAxisrange.push(0);
+                // the groups start after the start value pillar
+                var currChildCount = myBandwidth * this.getStartPillarCount(allDatatemp[allDatatemp.length - 1]);
+                xAxisrange.push(currChildCount);
                 currData.forEach(element => {
                     currChildCount = currChildCount + myBandwidth * element.childrenCount;
                     xAxisrange.push(currChildCount);
@@ -1901,12 +2771,12 @@ export class Visual implements IVisual {
             this.findBottom = 0;
             var myWidth = currChildCount + myBandwidth;
             if (allDataIndex != (levels - 1)) {
-                if (dataView.matrix.valueSources.length == 1) {
+                if (this.measureCount == 1) {
                     var myxAxisParent: d3.Selection<SVGGElement, unknown, null, undefined>;
 
                     this.createAxis(myxAxisParent, g, false, myWidth, 0, xScale, xBaseScale, currData, allDataIndex, levels, xAxisrange, myAxisParentHeight);
                 } else {
-                    for (let index = 1; index < dataView.matrix.valueSources.length; index++) {
+                    for (let index = 1; index < this.measureCount; index++) {
                         var myxAxisParent: d3.Selection<SVGGElement, unknown, null, undefined>;
                         this.createAxis(myxAxisParent, g, false, myWidth, index, xScale, xBaseScale, currData, allDataIndex, levels, xAxisrange, myAxisParentHeight);
                     }
@@ -1926,11 +2796,14 @@ export class Visual implements IVisual {
             };
         });
 
-        g.attr('transform', `translate(${0},${this.height - this.xAxisPosition - this.margin.bottom - this.scrollbarBreath + this.legendHeight})`);
+        g.attr('transform', `translate(${0},${this.height - this.xAxisPosition - this.margin.bottom - this.scrollbarBreath + this.legendOffsetTop()})`);
 
-        this.innerHeight = this.height - this.margin.top - this.margin.bottom - this.xAxisPosition - this.scrollbarBreath + this.legendHeight;
+        this.innerHeight = this.height - this.margin.top - this.margin.bottom - this.xAxisPosition - this.scrollbarBreath + this.legendOffsetTop();
     }
     private findBottom: number;
+    private getStartPillarCount(data): number {
+        return data.filter(d => d["startEndType"] == "Start").length;
+    }
 
     private createAxis(
         myxAxisParent: any,
@@ -2116,6 +2989,28 @@ export class Visual implements IVisual {
                 .style('stroke-width', "0pt");
         }
     }
+    private setLabelPercentValues(data: any) {
+        // every bar is compared to the opening pillar, or each step to the total movement of all the steps of the chart
+        var percentReference = this.visualSettings.LabelsFormatting.percentReference;
+        var openingPillarValue: number = null;
+        var totalMovement = 0;
+        data.forEach(element => {
+            if (element["isPillar"] == 1) {
+                if (openingPillarValue == null) {
+                    openingPillarValue = element["value"];
+                }
+            } else {
+                totalMovement = totalMovement + Math.abs(element["value"]);
+            }
+        });
+        data.forEach(element => {
+            if (percentReference == "Movement") {
+                element["labelPercent"] = element["isPillar"] != 1 && totalMovement ? element["value"] / totalMovement : null;
+            } else {
+                element["labelPercent"] = openingPillarValue ? element["value"] / Math.abs(openingPillarValue) : null;
+            }
+        });
+    }
     private addTotalLine(data: any, options: VisualUpdateOptions) {
         let dataView: DataView = options.dataViews[0];
         var data2 = [];
@@ -2126,14 +3021,23 @@ export class Visual implements IVisual {
         //This will always be zero as it should only have 1 measure
         var measureIndex = 0;
         //*******************************************************************
+        var sortOrderIndex = 0;
         data.forEach(element => {
-            totalValue = totalValue + element["value"];
+            if (!element["isSubtotal"]) {
+                totalValue = totalValue + element["value"];
+            }
             if (orderIndex < element["orderIndex"]) {
                 orderIndex = element["orderIndex"];
             }
+            if (sortOrderIndex < element["sortOrderIndex"]) {
+                sortOrderIndex = element["sortOrderIndex"];
+            }
         });
         data2["value"] = totalValue;
+        data2["targetValue"] = this.getTotalTargetValue();
         data2["orderIndex"] = orderIndex;
+        data2["sortOrderIndex"] = Math.floor(sortOrderIndex) + 1;
+        data2["sortOrderIndexforLimitBreakdown"] = data2["sortOrderIndex"];
         data2["numberFormat"] = data[0]["numberFormat"];
         data2["isPillar"] = 1;
         data2["category"] = dataView.matrix.valueSources[0].displayName;
@@ -2144,46 +3048,45 @@ export class Visual implements IVisual {
             .withMeasure(x.queryName)
             .createSelectionId();
         if (x.objects) {
-            if (x.objects.sentimentColor && !this.visualSettings.chartOrientation.useSentimentFeatures) {
+            if (x.objects.sentimentColor && x.objects.sentimentColor.fill && !this.visualSettings.chartOrientation.useSentimentFeatures) {
                 data2["customBarColor"] = x.objects["sentimentColor"]["fill"]["solid"]["color"];
             } else {
-                data2["customBarColor"] = this.getfillColor(data2["isPillar"], data2["value"]);
+                data2["customBarColor"] = this.getfillColor(data2["isPillar"], data2["value"], data2["invertSentiment"]);
             }
 
             if (x.objects.LabelsFormatting && !this.visualSettings.chartOrientation.useSentimentFeatures && !this.visualSettings.LabelsFormatting.useDefaultFontColor) {
                 if (x.objects.LabelsFormatting.fill) {
                     data2["customFontColor"] = x.objects["LabelsFormatting"]["fill"]["solid"]["color"];
                 } else {
-                    data2["customFontColor"] = this.getLabelFontColor(data2["isPillar"], data2["value"]);
+                    data2["customFontColor"] = this.getLabelFontColor(data2["isPillar"], data2["value"], data2["invertSentiment"]);
                 }
 
             } else {
-                data2["customFontColor"] = this.getLabelFontColor(data2["isPillar"], data2["value"]);
+                data2["customFontColor"] = this.getLabelFontColor(data2["isPillar"], data2["value"], data2["invertSentiment"]);
             }
 
             if (x.objects.LabelsFormatting && !this.visualSettings.LabelsFormatting.useDefaultLabelPositioning) {
                 if (x.objects.LabelsFormatting.labelPosition) {
                     data2["customLabelPositioning"] = x.objects["LabelsFormatting"]["labelPosition"];
                 } else {
-                    data2["customLabelPositioning"] = this.getLabelPosition(data2["isPillar"], data2["value"]);
+                    data2["customLabelPositioning"] = this.getLabelPosition(data2["isPillar"], data2["value"], data2["invertSentiment"]);
                 }
             } else {
-                data2["customLabelPositioning"] = this.getLabelPosition(data2["isPillar"], data2["value"]);
+                data2["customLabelPositioning"] = this.getLabelPosition(data2["isPillar"], data2["value"], data2["invertSentiment"]);
             }
         } else {
-            data2["customBarColor"] = this.getfillColor(data2["isPillar"], data2["value"]);
-            data2["customFontColor"] = this.getLabelFontColor(data2["isPillar"], data2["value"]);
-            data2["customLabelPositioning"] = this.getLabelPosition(data2["isPillar"], data2["value"]);
+            data2["customBarColor"] = this.getfillColor(data2["isPillar"], data2["value"], data2["invertSentiment"]);
+            data2["customFontColor"] = this.getLabelFontColor(data2["isPillar"], data2["value"], data2["invertSentiment"]);
+            data2["customLabelPositioning"] = this.getLabelPosition(data2["isPillar"], data2["value"], data2["invertSentiment"]);
         }
 
         data2["toolTipValue1Formatted"] = this.formatValueforLabels(data2);
         data2["toolTipDisplayValue1"] = data2["category"];
+        data2["tooltipValues"] = this.getTooltipValues(dataView.matrix.rows.root);
         data2["childrenCount"] = 1;
-        data2["sortOrderIndex"] = 1;
-        data2["sortOrderIndexforLimitBreakdown"] = 1;        
         return data2;
     }
-    private getDataForCategory(value: number, numberFormat: string, displayName: any, displayID: any, isPillar: number, selectionId: any, sortOrderIndex: number, childrenCount: number, toolTipDisplayValue1: string, toolTipDisplayValue2: string, Measure1Value: number, Measure2Value: number) {
+    private getDataForCategory(value: number, numberFormat: string, displayName: any, displayID: any, isPillar: number, selectionId: any, sortOrderIndex: number, childrenCount: number, toolTipDisplayValue1: string, toolTipDisplayValue2: string, Measure1Value: number, Measure2Value: number, tooltipValues: VisualTooltipDataItem[] = [], objects: DataViewObjects = null, invertSentiment: boolean = false) {
 
         var data2 = [];
         data2["value"] = value;
@@ -2201,11 +3104,36 @@ export class Visual implements IVisual {
         data2["toolTipValue2Formatted"] = this.formatValueforvalues(Measure2Value, numberFormat);
         data2["toolTipDisplayValue1"] = toolTipDisplayValue1;
         data2["toolTipDisplayValue2"] = toolTipDisplayValue2;
-        data2["customBarColor"] = this.getfillColor(data2["isPillar"], data2["value"]);
-        data2["customFontColor"] = this.getLabelFontColor(data2["isPillar"], data2["value"]);
-        data2["customLabelPositioning"] = this.getLabelPosition(data2["isPillar"], data2["value"]);
+        data2["tooltipValues"] = tooltipValues;
+        data2["invertSentiment"] = invertSentiment;
+        data2["customBarColor"] = this.getConditionalColor(objects, "sentimentColor", this.getfillColor(data2["isPillar"], data2["value"], data2["invertSentiment"]));
+        if (this.visualSettings.LabelsFormatting.useDefaultFontColor) {
+            data2["customFontColor"] = this.getLabelFontColor(data2["isPillar"], data2["value"], data2["invertSentiment"]);
+        } else {
+            data2["customFontColor"] = this.getConditionalColor(objects, "LabelsFormatting", this.getLabelFontColor(data2["isPillar"], data2["value"], data2["invertSentiment"]));
+        }
+        data2["customLabelPositioning"] = this.getLabelPosition(data2["isPillar"], data2["value"], data2["invertSentiment"]);
         return data2;
     }
+    // the colour resolved for a data point by a conditional formatting (fx) rule on the fill property
+    private getConditionalColor(objects: DataViewObjects, objectName: string, defaultColor: string): string {
+        if (objects && objects[objectName] && objects[objectName]["fill"]) {
+            return objects[objectName]["fill"]["solid"]["color"];
+        }
+        return defaultColor;
+    }
+
+    private setVarianceTooltipValues(data2: any, totalMovement: number) {
+        //the percentages are left undefined when there is nothing to divide by
+        var valueDifference = data2["Measure2Value"] - data2["Measure1Value"];
+        data2["toolTipVarianceFormatted"] = this.formatValueforvalues(valueDifference, data2["numberFormat"]);
+        if (data2["Measure1Value"] != 0) {
+            data2["toolTipVariancePercentFormatted"] = this.formatPercent(valueDifference / Math.abs(data2["Measure1Value"]));
+        }
+        if (totalMovement != 0) {
+            data2["toolTipContributionFormatted"] = this.formatPercent(valueDifference / Math.abs(totalMovement));
+        }
+    }
 
     private labelNoWrapText(text, standardwidth) {
 
@@ -2357,17 +3285,26 @@ export class Visual implements IVisual {
         this.getYaxisHeightHorizontal(this.gScrollable);
         this.svg.attr("width", this.width);
         this.innerHeight = this.innerHeight - this.yAxisHeightHorizontal;
+        // the secondary axis is drawn under the value axis
+        this.secondaryAxisSize = this.getSecondaryAxisSize(true);
+        this.innerHeight = this.innerHeight - this.secondaryAxisSize;
         this.svg.attr("height", this.innerHeight);
         this.checkBarWidthHorizontal(options);
         this.createXaxisHorizontal(this.gScrollable, options, allData);
         this.svgYAxis.attr("width", this.innerWidth + 5);
-        this.svgYAxis.attr("height", this.yAxisHeightHorizontal);
+        this.svgYAxis.attr("height", this.yAxisHeightHorizontal + this.secondaryAxisSize);
 
         this.createYAxisHorizontal(this.svgYAxis, 0);
         this.createYAxisHorizontal(this.gScrollable, this.innerHeight);
 
         this.createBarsHorizontal(this.gScrollable, this.barChartData);
+        this.createAxisBreakMarkers(true);
+        this.createTargetMarkers(true);
         this.createLabelsHorizontal(this.gScrollable);
+        if (this.showLineOverlay()) {
+            this.createLineOverlay(this.gScrollable, true);
+            this.createSecondaryAxis(this.svgYAxis, true);
+        }
         this.svg.attr('transform', `translate(${this.margin.left},${this.margin.top})`);
         this.svgYAxis.attr('transform', `translate(${this.margin.left},${this.margin.top})`);
 
@@ -2443,22 +3380,7 @@ export class Visual implements IVisual {
             <ISelectionId[]>this.selectionManager.getSelectionIds()
         );
         if (this.visualType == "drillable" || this.visualType == "staticCategory" || this.visualType == "drillableCategory") {
-            this.bars.on('click', (event, d) => {
-                // Allow selection only if the visual is rendered in a view that supports interactivity (e.g. Report)
-
-                if (this.allowInteractions) {
-                    const isCtrlPressed: boolean = (event).ctrlKey;
-                    if (this.selectionManager.hasSelection() && !isCtrlPressed) {
-                        this.bars.attr('fill-opacity', 1);
-                    }
-                    this.selectionManager
-                        .select(d.selectionId, isCtrlPressed)
-                        .then((ids: ISelectionId[]) => {
-                            this.syncSelectionState(this.bars, ids);
-                        });
-                    (event).stopPropagation();
-                }
-            });
+            this.bars.on('click', this.selectBar);
         }
 
         this.tooltipServiceWrapper.addTooltip(g.selectAll('rect'),
@@ -2604,7 +3526,7 @@ export class Visual implements IVisual {
                 .attr('class', 'labels');
 
             var labelFormatting = d => {
-                return this.formatValueforLabels(d);
+                return this.formatLabelText(d);
                 //return this.formattedValuefromData(d);
             }
 
@@ -2626,10 +3548,10 @@ export class Visual implements IVisual {
         }
 
         g.selectAll(".labels")
-            .call(this.labelFitToWidthHorizontal, this.width + this.findRightHorizontal - this.scrollbarBreath);
+            .call(this.labelFitToWidthHorizontal, this.width + this.findRightHorizontal - this.scrollbarBreath, this.legendOffsetLeft());
         this.tooltipServiceWrapper.addTooltip(g.selectAll('.labels'),
             (tooltipEvent: TooltipEventArgs<number>) => this.getTooltipData(tooltipEvent.data),
-            (tooltipEvent: TooltipEventArgs<number>) => null);
+            (tooltipEvent: TooltipEventArgs<number>) => this.getTooltipSelectionID(tooltipEvent.data));
 
 
 
@@ -2680,10 +3602,10 @@ export class Visual implements IVisual {
 
         return yPosition;
     }
-    private labelFitToWidthHorizontal(text: { each: (arg0: (d: any, i: any, nodes: any) => void) => void; }, rightEdge: number) {
+    private labelFitToWidthHorizontal(text: { each: (arg0: (d: any, i: any, nodes: any) => void) => void; }, rightEdge: number, leftEdge: number) {
 
         text.each((d, i, nodes) => {
-            if (nodes[i].getBoundingClientRect().right > rightEdge || nodes[i].getBoundingClientRect().left < 0) {
+            if (nodes[i].getBoundingClientRect().right > rightEdge + leftEdge || nodes[i].getBoundingClientRect().left < leftEdge) {
                 nodes[i].remove();
             }
         });
@@ -2800,7 +3722,7 @@ export class Visual implements IVisual {
             .range([0, this.innerHeight])
             .padding(0.2);
 
-        if (dataView.matrix.valueSources.length > 1) {
+        if (this.measureCount > 1) {
             var pillarsCount = 3;
             var fullWidth = this.innerHeight - xBaseScale.bandwidth() + (xBaseScale.step() * xBaseScale.padding() * pillarsCount);
             var myBandwidth = fullWidth / allDatatemp[allDatatemp.length - 1].length;
@@ -2821,8 +3743,9 @@ export class Visual implements IVisual {
 
                 currData = this.getAllMatrixLevelsNew(root, allDataIndex);
                 var xAxisrange = [];
-                var currChildCount = 0
-                xAxisrange.push(0);
+                // the groups start after the start value pillar
+                var currChildCount = myBandwidth * this.getStartPillarCount(allDatatemp[allDatatemp.length - 1]);
+                xAxisrange.push(currChildCount);
                 currData.forEach(element => {
                     currChildCount = currChildCount + myBandwidth * element.childrenCount;
                     xAxisrange.push(currChildCount);
@@ -2834,11 +3757,11 @@ export class Visual implements IVisual {
             this.findRightHorizontal = 0;
             var myWidth = currChildCount + myBandwidth;
             if (allDataIndex != (levels - 1)) {
-                if (dataView.matrix.valueSources.length == 1) {
+                if (this.measureCount == 1) {
                     var myxAxisParent;
                     this.createAxisHorizontal(myxAxisParent, g, false, myWidth, 0, xScale, xBaseScale, currData, allDataIndex, levels, xAxisrange, myAxisParentHeight);
                 } else {
-                    for (let index = 1; index < dataView.matrix.valueSources.length; index++) {
+                    for (let index = 1; index < this.measureCount; index++) {
                         var myxAxisParent;
                         this.createAxisHorizontal(myxAxisParent, g, false, myWidth, index, xScale, xBaseScale, currData, allDataIndex, levels, xAxisrange, myAxisParentHeight);
                     }
@@ -2853,8 +3776,8 @@ export class Visual implements IVisual {
 
         g.selectAll('text').each((d, i, nodes) => {
 
-            if (this.xAxisPosition >= nodes[i].getBoundingClientRect().left) {
-                this.xAxisPosition = nodes[i].getBoundingClientRect().left;
+            if (this.xAxisPosition >= nodes[i].getBoundingClientRect().left - this.legendOffsetLeft()) {
+                this.xAxisPosition = nodes[i].getBoundingClientRect().left - this.legendOffsetLeft();
             };
         });
 
@@ -2901,7 +3824,7 @@ export class Visual implements IVisual {
                         this.bars.attr('fill-opacity', 1);
                     }
                     this.selectionManager
-                        .select(d.selectionId, isCtrlPressed)
+                        .select(this.getBarSelectionIds(d), isCtrlPressed)
                         .then((ids: ISelectionId[]) => {
                             this.syncSelectionState(this.bars, ids);
                         });
@@ -2939,8 +3862,8 @@ export class Visual implements IVisual {
         }
 
         myxAxisParent.selectAll("text").each((d, i, nodes) => {
-            if (this.findRightHorizontal >= nodes[i].getBoundingClientRect().left) {
-                this.findRightHorizontal = nodes[i].getBoundingClientRect().left;
+            if (this.findRightHorizontal >= nodes[i].getBoundingClientRect().left - this.legendOffsetLeft()) {
+                this.findRightHorizontal = nodes[i].getBoundingClientRect().left - this.legendOffsetLeft();
             };
         });
 
@@ -3082,6 +4005,10 @@ export class Visual implements IVisual {
                 yAxis.selectAll('line').style('fill', 'none').style('stroke', this.visualSettings.yAxisFormatting.gridLineColor).style('stroke-width', "0pt");
             }*/
             yAxis.selectAll('line').attr('y2', -this.innerHeight);
+            if (this.getAxisBreak() != 0) {
+                var breakPosition = this.getAxisBreak() > 0 ? this.axisBreakOffset : this.innerWidth + this.xAxisPosition - this.scrollbarBreath - this.axisBreakOffset;
+                this.createAxisBreakMarker(yAxis, breakPosition, -6, 12, true);
+            }
         }
 
         g.attr('transform', `translate(${-this.findRightHorizontal},${adjustPosition})`);
@@ -3201,13 +4128,18 @@ export class Visual implements IVisual {
                 formattedvalue = iValueFormatter.format(d.value);
                 break;
             }
+            case "Custom": {
+                iValueFormatter = valueFormatter.create({ cultureSelector: this.locale, format: this.visualSettings.LabelsFormatting.customFormat ? this.visualSettings.LabelsFormatting.customFormat : d.numberFormat });
+                formattedvalue = iValueFormatter.format(d.value);
+                break;
+            }
             default: {
                 iValueFormatter = valueFormatter.create({ cultureSelector: this.locale, format: d.numberFormat });
                 formattedvalue = iValueFormatter.format(d.value);
                 break;
             }
         }
-        return formattedvalue;
+        return this.formatNegativeValue(d.value, formattedvalue);
     }
     private formatValueforvalues(value, numberFormat) {
         var iValueFormatter;
@@ -3248,13 +4180,18 @@ export class Visual implements IVisual {
                 formattedvalue = iValueFormatter.format(value);
                 break;
             }
+            case "Custom": {
+                iValueFormatter = valueFormatter.create({ cultureSelector: this.locale, format: this.visualSettings.LabelsFormatting.customFormat ? this.visualSettings.LabelsFormatting.customFormat : numberFormat });
+                formattedvalue = iValueFormatter.format(value);
+                break;
+            }
             default: {
                 iValueFormatter = valueFormatter.create({ cultureSelector: this.locale, format: numberFormat });
                 formattedvalue = iValueFormatter.format(value);
                 break;
             }
         }
-        return formattedvalue;
+        return this.formatNegativeValue(value, formattedvalue);
     }
 
     private formatValueforYAxis(d: any) {
@@ -3295,13 +4232,67 @@ export class Visual implements IVisual {
                 formattedvalue = iValueFormatter.format(d);
                 break;
             }
+            case "Custom": {
+                iValueFormatter = valueFormatter.create({ cultureSelector: this.locale, format: this.visualSettings.yAxisFormatting.customFormat ? this.visualSettings.yAxisFormatting.customFormat : this.barChartData[0].numberFormat });
+                formattedvalue = iValueFormatter.format(d);
+                break;
+            }
             default: {
                 iValueFormatter = valueFormatter.create({ cultureSelector: this.locale, format: this.barChartData[0].numberFormat });
                 formattedvalue = iValueFormatter.format(d);
                 break;
             }
         }
-        return formattedvalue;
+        return this.formatNegativeValue(d, formattedvalue);
+    }
+    private formatNegativeValue(value: number, formattedValue: string) {
+        // format strings with their own negative section are left as they are
+        if (this.visualSettings.LabelsFormatting.negativeInBrackets && value < 0 && formattedValue.indexOf("-") == 0) {
+            return "(" + formattedValue.substring(1) + ")";
+        }
+        return formattedValue;
+    }
+    private formatLabelText(d: any) {
+        var signPrefix = d.isPillar == 1 ? "None" : this.visualSettings.LabelsFormatting.signPrefix;
+        var labelPercent: number = d.labelPercent;
+        var prefix = "";
+        var formattedValue: string;
+        if (signPrefix == "Arrow" && d.value != 0 && !this.isNeutral(d.value)) {
+            // the arrow tells favourable from adverse the same way as the bar colour
+            prefix = this.isAdverse(d.value, d.invertSentiment) ? "\u25BC " : "\u25B2 ";
+            // the arrow replaces the sign of every step, so the value and percent are shown unsigned
+            formattedValue = this.formatValueforvalues(Math.abs(d.value), d.numberFormat);
+            if (labelPercent != null) {
+                labelPercent = Math.abs(labelPercent);
+            }
+        } else {
+            if (signPrefix == "Sign" && d.value > 0) {
+                prefix = "+";
+            }
+            formattedValue = this.formatValueforLabels(d);
+        }
+        // bars without a reference value to compare to keep showing only the value
+        if (labelPercent == null) {
+            return prefix + formattedValue;
+        }
+        switch (this.visualSettings.LabelsFormatting.labelContent) {
+            case "Percent": {
+                return prefix + this.formatPercent(labelPercent);
+            }
+            case "ValuePercent": {
+                return prefix + formattedValue + " (" + this.formatPercent(labelPercent) + ")";
+            }
+            default: {
+                return prefix + formattedValue;
+            }
+        }
+    }
+    // the percents follow the decimal places set for the labels
+    private formatPercent(value: number) {
+        var decimalPlaces = this.visualSettings.LabelsFormatting.decimalPlaces;
+        var format = decimalPlaces > 0 ? "0." + "0".repeat(decimalPlaces) + "%" : "0%";
+        var iValueFormatter = valueFormatter.create({ cultureSelector: this.locale, format: format });
+        return iValueFormatter.format(value);
     }
     private formatCategory(value: any, type: any, format: any) {
         let iValueFormatter_XAxis;